@@ -0,0 +1,55 @@
+// Compares alpha-beta node counts for different move-ordering configurations.
+// Each position is searched by iterative deepening, as in play, so the hash
+// move has earlier iterations to draw on. Run with `npm run bench:ordering`.
+import type { Player, Position } from '@/types/othello';
+import { createInitialPosition, getMovesMask, bitsToSquares, playMove, squareBit, squareIndex } from '@/lib/bitboard';
+import { getOpponent } from '@/lib/othello';
+import { createSearchContext, search } from '@/lib/minimax';
+import { createRandom } from '@/lib/random';
+import { MoveOrderer, DEFAULT_MOVE_ORDERING, NO_MOVE_ORDERING, type MoveOrderingConfig } from '@/lib/move-ordering';
+
+const SEARCH_DEPTH = 7;
+const POSITION_COUNT = 8;
+
+const CONFIGS: Record<string, MoveOrderingConfig> = {
+  'none': NO_MOVE_ORDERING,
+  'hash move': { ...NO_MOVE_ORDERING, hashMove: true },
+  'static priors': { ...NO_MOVE_ORDERING, staticPriors: true },
+  'killers + history': { ...NO_MOVE_ORDERING, killers: true, history: true },
+  'default': DEFAULT_MOVE_ORDERING,
+  'default + shallow search': { ...DEFAULT_MOVE_ORDERING, shallowSearchDepth: 2, shallowSearchMinDepth: 4 },
+};
+
+// Seeded, so every run benchmarks the same positions.
+function randomPosition(seed: number, plies: number): { position: Position; player: Player } {
+  const random = createRandom(seed);
+  let position = createInitialPosition();
+  let player: Player = 'black';
+  for (let i = 0; i < plies; i++) {
+    const moves = bitsToSquares(getMovesMask(position, player));
+    if (moves.length === 0) break;
+    position = playMove(position, player, squareBit(moves[Math.floor(random() * moves.length)]));
+    player = getOpponent(player);
+  }
+  return { position, player };
+}
+
+const positions = Array.from({ length: POSITION_COUNT }, (_, i) => randomPosition(i + 1, 10 + i * 4));
+
+const rows = Object.entries(CONFIGS).map(([name, config]) => {
+  let nodes = 0;
+  const start = performance.now();
+  for (const { position, player } of positions) {
+    const ctx = createSearchContext(player, { ordering: new MoveOrderer(config) });
+    for (let depth = 1; depth <= SEARCH_DEPTH; depth++) {
+      const { move } = search(ctx, position, depth, true, -Infinity, Infinity);
+      ctx.rootMoveHint = move ? squareIndex(move.row, move.col, position.size) : undefined;
+    }
+    nodes += ctx.nodes;
+  }
+  return { config: name, nodes, ms: Math.round(performance.now() - start) };
+});
+
+const baseline = rows[0].nodes;
+console.log(`Iterative deepening to depth ${SEARCH_DEPTH} over ${POSITION_COUNT} positions`);
+console.table(rows.map(row => ({ ...row, 'vs none': `${((row.nodes / baseline) * 100).toFixed(1)}%` })));
@@ -0,0 +1,82 @@
+// Plays a tournament between engine configurations and writes the games and
+// Elo standings as JSON, which the /tournament page renders. Run with
+// `npm run tournament -- --config my-tournament.json --out public/tournament-results.json`.
+// Without --config the built-in engines play a round robin.
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { runTournament, getPairings, type TournamentConfig } from '@/lib/tournament';
+import { EVALUATION_PRESETS } from '@/lib/evaluation';
+
+const DEFAULT_OUT = 'public/tournament-results.json';
+
+const DEFAULT_CONFIG: TournamentConfig = {
+  name: 'Built-in engines',
+  format: 'round-robin',
+  entrants: [
+    { name: 'Random', engine: { id: 'random' }, timeLimitMs: 100 },
+    { name: 'Greedy', engine: { id: 'greedy' }, timeLimitMs: 100 },
+    {
+      name: 'Minimax depth 2',
+      engine: { id: 'minimax', options: { maxDepth: 2, endgameEmpties: 0, evaluation: EVALUATION_PRESETS.classic } },
+      timeLimitMs: 1000,
+    },
+    { name: 'Minimax 100ms', engine: { id: 'minimax', options: { evaluation: EVALUATION_PRESETS.balanced } }, timeLimitMs: 100 },
+    { name: 'MCTS 100ms', engine: { id: 'mcts' }, timeLimitMs: 100 },
+  ],
+  gamesPerPairing: 4,
+  randomOpeningPlies: 4,
+  seed: 1,
+};
+
+function parseArgs(args: string[]): { config: TournamentConfig; out: string } {
+  let config = DEFAULT_CONFIG;
+  let out = DEFAULT_OUT;
+  const overrides: Partial<TournamentConfig> = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const [flag, value] = [args[i], args[i + 1]];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    if (flag === '--config') config = JSON.parse(readFileSync(value, 'utf8')) as TournamentConfig;
+    else if (flag === '--out') out = value;
+    else if (flag === '--games') overrides.gamesPerPairing = Number(value);
+    else if (flag === '--format' && (value === 'round-robin' || value === 'gauntlet')) overrides.format = value;
+    else if (flag === '--seed') overrides.seed = Number(value);
+    else throw new Error(`Unknown option: ${flag}`);
+  }
+  return { config: { ...config, ...overrides }, out };
+}
+
+async function main() {
+  const { config, out } = parseArgs(process.argv.slice(2));
+  console.log(
+    `${config.name}: ${config.format} of ${config.entrants.length} entrants, ` +
+      `${getPairings(config).length} pairings, ${config.gamesPerPairing} games each`
+  );
+
+  const report = await runTournament(config, {
+    onGame: (game, played, total) => {
+      const result = game.winner === 'draw' ? 'draw' : `${game.winner === 'black' ? game.black : game.white} wins`;
+      console.log(`[${played}/${total}] ${game.black} vs ${game.white}: ${game.blackDiscs}-${game.whiteDiscs}, ${result}`);
+    },
+  });
+
+  mkdirSync(dirname(out), { recursive: true });
+  writeFileSync(out, JSON.stringify(report, null, 2));
+  console.table(
+    report.standings.map(({ name, games, wins, losses, draws, score, elo, eloLow, eloHigh }) => ({
+      name,
+      games,
+      'W/L/D': `${wins}/${losses}/${draws}`,
+      score: `${(score * 100).toFixed(1)}%`,
+      elo,
+      '95% CI': `${eloLow} to ${eloHigh}`,
+    }))
+  );
+  console.log(`Results written to ${out}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
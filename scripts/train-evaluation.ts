@@ -0,0 +1,70 @@
+// Trains evaluation weights by self-play and saves a snapshot of the weights
+// after every generation, with its results against the baseline. Run with
+// `npm run train -- --generations 10 --games 50 --eval-games 20 --out training-output`.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { runTraining, DEFAULT_TRAINING_CONFIG, type TrainingConfig } from '@/lib/training';
+
+const FLAGS: Record<string, keyof TrainingConfig> = {
+  '--generations': 'generations',
+  '--games': 'gamesPerGeneration',
+  '--eval-games': 'evaluationGames',
+  '--learning-rate': 'learningRate',
+  '--lambda': 'lambda',
+  '--depth': 'evaluationDepth',
+  '--seed': 'seed',
+};
+
+function parseArgs(args: string[]): { overrides: Partial<TrainingConfig>; out: string } {
+  const overrides: Record<string, number> = {};
+  let out = 'training-output';
+  for (let i = 0; i < args.length; i += 2) {
+    const [flag, value] = [args[i], args[i + 1]];
+    if (flag === '--out') {
+      out = value;
+    } else if (flag in FLAGS && value !== undefined && !Number.isNaN(Number(value))) {
+      overrides[FLAGS[flag]] = Number(value);
+    } else {
+      throw new Error(`Unknown or incomplete option: ${flag}`);
+    }
+  }
+  return { overrides: overrides as Partial<TrainingConfig>, out };
+}
+
+async function main() {
+  const { overrides, out } = parseArgs(process.argv.slice(2));
+  const config = { ...DEFAULT_TRAINING_CONFIG, ...overrides };
+  mkdirSync(out, { recursive: true });
+  console.log(
+    `Training for ${config.generations} generations of ${config.gamesPerGeneration} games, ` +
+      `measured over ${config.evaluationGames} games against ${config.baseline.name}`
+  );
+
+  const snapshots = await runTraining(overrides, {
+    onSnapshot: snapshot => {
+      const file = join(out, `generation-${String(snapshot.generation).padStart(3, '0')}.json`);
+      writeFileSync(file, JSON.stringify(snapshot, null, 2));
+      console.log(
+        `Generation ${snapshot.generation}: ${snapshot.wins}W ${snapshot.losses}L ${snapshot.draws}D ` +
+          `(${(snapshot.winRate * 100).toFixed(1)}%) after ${snapshot.gamesPlayed} games`
+      );
+    },
+  });
+
+  writeFileSync(join(out, 'summary.json'), JSON.stringify({ config, snapshots }, null, 2));
+  console.table(
+    snapshots.map(({ generation, gamesPlayed, wins, losses, draws, winRate }) => ({
+      generation,
+      games: gamesPlayed,
+      wins,
+      losses,
+      draws,
+      'win rate': `${(winRate * 100).toFixed(1)}%`,
+    }))
+  );
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
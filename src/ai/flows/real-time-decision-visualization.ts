@@ -16,7 +16,11 @@ const VisualizeAiDecisionInputSchema = z.object({
     row: z.number().describe('The row index of the possible move.'),
     col: z.number().describe('The column index of the possible move.'),
     score: z.number().describe('The score associated with the possible move, indicating its desirability.'),
+    square: z.string().optional().describe('The move in standard Othello notation, e.g. "f5".'),
+    principalVariation: z.string().optional().describe('The line of play the engine expects after this move, in standard notation.'),
   })).describe('An array of possible moves the AI could make, with their associated scores.'),
+  searchDepth: z.number().optional().describe('The depth in plies the engine searched to score the moves.'),
+  solved: z.boolean().optional().describe('Whether the scores are exact final disc margins from a solved endgame.'),
 });
 export type VisualizeAiDecisionInput = z.infer<typeof VisualizeAiDecisionInputSchema>;
 
@@ -40,8 +44,13 @@ Current Board State:
 
 Possible Moves and Scores:
 {{#each possibleMoves}}
-  Row: {{this.row}}, Col: {{this.col}}, Score: {{this.score}}
+  {{#if this.square}}Square: {{this.square}}, {{/if}}Row: {{this.row}}, Col: {{this.col}}, Score: {{this.score}}{{#if this.principalVariation}}, Expected line: {{this.principalVariation}}{{/if}}
 {{/each}}
+{{#if solved}}
+The endgame was solved exactly: each score is the final disc margin the AI will reach with perfect play.
+{{else}}{{#if searchDepth}}
+Scores come from a {{searchDepth}}-ply search; positive values favour the AI.
+{{/if}}{{/if}}
 
 Explain the AI\u0027s decision-making process in a clear and concise manner. Focus on the move with the highest score and justify why that move is strategically advantageous in the current board state. 
 `,
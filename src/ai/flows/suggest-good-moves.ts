@@ -19,8 +19,8 @@ export type SuggestGoodMovesInput = z.infer<typeof SuggestGoodMovesInputSchema>;
 
 const SuggestGoodMovesOutputSchema = z.object({
   move: z.object({
-      row: z.number().describe('The row index of the suggested move (0-7).'),
-      col: z.number().describe('The column index of the suggested move (0-7).'),
+      row: z.number().describe('The row index of the suggested move (0 at the top).'),
+      col: z.number().describe('The column index of the suggested move (0 at the left).'),
   }).describe('The suggested move coordinates.'),
   rationale: z
     .string()
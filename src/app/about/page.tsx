@@ -3,7 +3,7 @@
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, BrainCircuit, Code, Users, ExternalLink, BookOpen, BarChart, HelpCircle } from 'lucide-react';
+import { ArrowLeft, BrainCircuit, Code, Users, ExternalLink, BookOpen, BarChart, HelpCircle, Trophy, Compass } from 'lucide-react';
 
 export default function AboutPage() {
   return (
@@ -40,6 +40,9 @@ export default function AboutPage() {
             <p>
               <strong>Minimax</strong> is a recursive algorithm used in two-player, zero-sum games (like Othello) to choose the optimal move. It works by creating a tree of all possible moves a few steps into the future. The AI assumes the player will always make the best move for them (maximizing their score), and the AI will try to make the move that minimizes the player's potential maximum score. The "depth" of this search tree determines the difficulty. A deeper search means the AI "thinks" more moves ahead, resulting in a tougher opponent.
             </p>
+            <p>
+              The <strong>Monte Carlo (MCTS)</strong> level plays in a fundamentally different way. Instead of evaluating positions with hand-tuned rules, <strong>Monte Carlo Tree Search</strong> plays thousands of quick games to the end from the current position and keeps statistics on how often each move led to a win. The UCT formula balances trying the moves that have won most so far against exploring moves it has rarely tried, and the move it explored most is the one it plays.
+            </p>
             <p>
               The AI also leverages a generative AI model (powered by Google's Gemini) for two key features:
             </p>
@@ -68,6 +71,16 @@ export default function AboutPage() {
                     <BarChart className="w-4 h-4 mr-2" /> Understanding the Win-Rate Chart
                 </Link>
             </Button>
+            <Button asChild variant="outline">
+                <Link href="/tournament" className="flex items-center">
+                    <Trophy className="w-4 h-4 mr-2" /> Engine Tournament Results
+                </Link>
+            </Button>
+            <Button asChild variant="outline">
+                <Link href="/explorer" className="flex items-center">
+                    <Compass className="w-4 h-4 mr-2" /> Opening Explorer
+                </Link>
+            </Button>
           </CardContent>
         </Card>
 
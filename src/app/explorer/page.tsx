@@ -0,0 +1,221 @@
+'use client';
+
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import Link from 'next/link';
+import type { Move } from '@/types/othello';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Database, Compass, Undo2, RotateCcw, Trash2 } from 'lucide-react';
+import OthelloBoard from '@/components/othello-board';
+import { useWthorDatabase, type ExplorerPosition } from '@/hooks/use-wthor-database';
+import { getValidMoves, getOpponent } from '@/lib/othello';
+import { positionFromBoard } from '@/lib/bitboard';
+import { moveToSquare, replayTranscript, serializeTranscript } from '@/lib/notation';
+import { EXPLORER_MAX_PLY } from '@/lib/opening-explorer';
+
+const percent = (part: number, total: number) => `${total > 0 ? Math.round((part / total) * 100) : 0}%`;
+
+export default function ExplorerPage() {
+  const { gameCount, importing, progress, importFiles, explore, clear } = useWthorDatabase();
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The moves from the standard start to the position explored.
+  const [line, setLine] = useState<Move[]>([]);
+  const [explored, setExplored] = useState<ExplorerPosition | null>(null);
+
+  // A side with no move passes, as in the database games.
+  const { board, currentPlayer, entries } = useMemo(() => {
+    const replay = replayTranscript(line);
+    const stuck = getValidMoves(replay.board, replay.currentPlayer).length === 0;
+    return stuck ? { ...replay, currentPlayer: getOpponent(replay.currentPlayer) } : replay;
+  }, [line]);
+  const validMoves = useMemo(() => getValidMoves(board, currentPlayer), [board, currentPlayer]);
+
+  useEffect(() => {
+    let cancelled = false;
+    explore(positionFromBoard(board), currentPlayer)
+      .then(result => {
+        if (!cancelled) setExplored(result);
+      })
+      .catch(() => {
+        if (!cancelled) setExplored(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [board, currentPlayer, explore, gameCount]);
+
+  const play = (move: Move) => {
+    if (validMoves.some(m => m.row === move.row && m.col === move.col)) {
+      setLine(previous => [...previous, move]);
+    }
+  };
+
+  const handleFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    setError(null);
+    setStatus(null);
+    try {
+      const { added, duplicates, skipped } = await importFiles(files);
+      setStatus(
+        `Added ${added.toLocaleString()} games` +
+          (duplicates > 0 ? `, ${duplicates.toLocaleString()} already imported` : '') +
+          (skipped > 0 ? `, ${skipped.toLocaleString()} skipped for illegal moves` : '') +
+          '.'
+      );
+    } catch (e) {
+      setError(`Could not import: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const moves = explored?.moves ?? [];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-4 sm:p-6 lg:p-8 font-body">
+      <header className="mb-8">
+        <Button asChild variant="outline">
+          <Link href="/">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Game
+          </Link>
+        </Button>
+      </header>
+      <main className="max-w-6xl mx-auto space-y-8">
+        <div className="text-center">
+          <h1 className="text-4xl sm:text-5xl font-bold font-headline tracking-tighter text-primary">
+            Opening Explorer
+          </h1>
+          <p className="text-muted-foreground mt-2 text-lg">
+            The moves played from each position in the WTHOR database of tournament games, and how those games ended.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-2xl">
+              <Database className="w-6 h-6 text-primary" />
+              Database
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-muted-foreground">
+            <p>
+              {gameCount === null
+                ? 'Opening the database...'
+                : `${gameCount.toLocaleString()} games imported. They are stored in this browser.`}
+            </p>
+            <p className="text-sm">
+              Download the yearly <code className="font-code">.wtb</code> files and the player and tournament lists,{' '}
+              <code className="font-code">wthor.jou</code> and <code className="font-code">wthor.trn</code>, from the
+              Fédération Française d&apos;Othello, then select them together. Names are remembered for game files
+              imported later on their own.
+            </p>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="wthor-files">Import WTHOR files</Label>
+                <Input
+                  id="wthor-files"
+                  type="file"
+                  multiple
+                  accept=".wtb,.jou,.trn"
+                  onChange={handleFiles}
+                  disabled={importing}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => clear().then(() => setStatus('The database is empty.'))}
+                disabled={importing || !gameCount}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Clear
+              </Button>
+            </div>
+            {importing && (
+              <p className="text-sm">
+                Importing{progress ? `: ${progress.filesDone} of ${progress.files} game files done` : '...'}
+              </p>
+            )}
+            {status && <p className="text-sm">{status}</p>}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <OthelloBoard
+              board={board}
+              onCellClick={play}
+              validMoves={validMoves}
+              player={currentPlayer}
+              suggestedMove={moves[0]?.move ?? null}
+              lastMove={line[line.length - 1] ?? null}
+            />
+            <div className="flex items-center justify-center gap-2">
+              <Button variant="outline" onClick={() => setLine(previous => previous.slice(0, -1))} disabled={line.length === 0}>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Back
+              </Button>
+              <Button variant="outline" onClick={() => setLine([])} disabled={line.length === 0}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Start Position
+              </Button>
+            </div>
+            <p className="text-center font-code text-sm text-muted-foreground break-all">
+              {line.length > 0 ? serializeTranscript(entries) : 'Click a square or a move to explore.'}
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-2xl">
+                <Compass className="w-6 h-6 text-primary" />
+                {currentPlayer === 'black' ? 'Black' : 'White'} to Move
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {explored && explored.games > 0
+                  ? `${explored.games.toLocaleString()} games reached this position.`
+                  : line.length >= EXPLORER_MAX_PLY
+                    ? `Only the first ${EXPLORER_MAX_PLY} moves of each game are indexed.`
+                    : 'No imported game reached this position.'}
+              </p>
+              {moves.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Move</TableHead>
+                      <TableHead className="text-right">Games</TableHead>
+                      <TableHead className="text-right">Share</TableHead>
+                      <TableHead className="text-right">Black / Draw / White</TableHead>
+                      <TableHead className="text-right">Avg. black discs</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {moves.map(stats => (
+                      <TableRow key={moveToSquare(stats.move)} className="cursor-pointer" onClick={() => play(stats.move)}>
+                        <TableCell className="font-code font-medium">{moveToSquare(stats.move)}</TableCell>
+                        <TableCell className="text-right">{Math.round(stats.games).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{percent(stats.games, explored?.games ?? 0)}</TableCell>
+                        <TableCell className="text-right">
+                          {percent(stats.blackWins, stats.games)} / {percent(stats.draws, stats.games)} /{' '}
+                          {percent(stats.whiteWins, stats.games)}
+                        </TableCell>
+                        <TableCell className="text-right">{stats.averageBlackScore.toFixed(1)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -44,7 +44,9 @@ export default function HowToUsePage() {
               The main goal is to have more of your colored pieces on the board than your opponent by the time the last playable square is filled.
             </p>
             <ol className="list-decimal pl-5 space-y-2">
-                <li><strong>Start a Game:</strong> From the "Game Status" panel, choose your desired AI difficulty, then select whether you want to play as "Black" or "White". Black always goes first.</li>
+                <li><strong>Start a Game:</strong> From the "Game Status" panel, choose your desired AI difficulty, board size, rules (standard, or Anti-Othello where the fewest discs win) and start position (standard, parallel or a random XOT opening), then select whether you want to play as "Black" or "White". Black always goes first. The 6x6 board is a good place to learn; 10x10 and 12x12 make for longer games.</li>
+                <li><strong>Setting Up a Position:</strong> Click "Set Up Position" to edit the board. Choose a color to paint with and click or drag across squares, pick the side to move, or paste a position string. Then play the position as either color, or click "Analyze" to see the AI's best moves.</li>
+                <li><strong>Importing and Exporting Games:</strong> Click "Import Game" to paste a game in GGF (Generic Game Format) or open a <code>.ggf</code> file, such as one saved from an Othello server. Every move is checked, and the game opens in review. When a game ends, "Export GGF" saves it in the same format.</li>
                 <li><strong>Making a Move:</strong> On your turn, the board will highlight all valid moves with a semi-transparent red circle. Click on one of these circles to place your piece.</li>
                 <li><strong>How Moves Work:</strong> You must place a piece on the board so that at least one of your opponent's pieces is "sandwiched" between your new piece and another one of your pieces. All sandwiched pieces will be flipped to your color.</li>
                 <li><strong>Game End:</strong> The game ends when neither player has a valid move. The player with the most pieces on the board wins.</li>
@@ -75,7 +77,7 @@ export default function HowToUsePage() {
              <div>
               <h3 className="font-semibold text-lg flex items-center gap-2 mb-2"><Repeat className="w-5 h-5"/> Start New Training Session</h3>
               <p className="text-muted-foreground">
-                This button resets the AI's "learning" progress, which is visualized in the Win-Rate chart. In this demo, the training data is simulated, but this function demonstrates how you could trigger a retraining or a new simulation run for a learning AI model.
+                This button starts a real training session. The AI resets to its original evaluation weights, plays games against itself and adjusts its weights after each game with temporal-difference learning. After every generation it plays a short match against the untrained AI, and the results appear in the Win-Rate chart.
               </p>
             </div>
           </CardContent>
@@ -1,32 +1,83 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import Link from 'next/link';
 import { Bot, BrainCircuit, Lightbulb, BarChart, Info } from 'lucide-react';
-import type { BoardState, Player, Move } from '@/types/othello';
-import { createInitialBoard, getValidMoves, applyMove, getScore, getOpponent, boardToString, isValidMove } from '@/lib/othello';
+import type { Player, Move } from '@/types/othello';
+import { boardToString, isValidMove, createInitialBoard } from '@/lib/othello';
 import OthelloBoard from '@/components/othello-board';
 import GameInfoPanel from '@/components/game-info-panel';
+import MoveListPanel from '@/components/move-list-panel';
+import ReplayControls from '@/components/replay-controls';
+import PositionEditor from '@/components/position-editor';
 import AiPanel from '@/components/ai-panel';
-import WinRateChart from '@/components/win-rate-chart';
+import WinRateHistory from '@/components/win-rate-history';
 import { suggestGoodMoves, SuggestGoodMovesOutput } from '@/ai/flows/suggest-good-moves';
 import { visualizeAiDecision } from '@/ai/flows/real-time-decision-visualization';
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { minimax } from '@/lib/minimax';
-
-const rowLabels = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+import { useOthelloGame, type Difficulty, type GameSetup } from '@/hooks/use-othello-game';
+import { useTrainingSession } from '@/hooks/use-training-session';
+import { useGameRecords } from '@/hooks/use-game-records';
+import { selfPlayRecords } from '@/lib/game-records';
+import type { TrainingSnapshot } from '@/lib/training';
+import { eventsToTranscript } from '@/lib/game';
+import { identifyOpening } from '@/lib/opening-book';
+import { getDefaultOpeningBook } from '@/lib/default-opening-book';
+import { moveToSquare, serializeTranscript, serializePosition, type PositionSetup } from '@/lib/notation';
+import { FINAL_SCORE_SCALE } from '@/lib/minimax';
+import { getStableSquares } from '@/lib/stability';
+import { DEFAULT_BOARD_SIZE } from '@/lib/bitboard';
+import { STANDARD_VARIANT } from '@/lib/variants';
+import type { GgfReplay } from '@/lib/ggf';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 
 export default function Home() {
-  const [board, setBoard] = useState<BoardState>(createInitialBoard());
-  const [currentPlayer, setCurrentPlayer] = useState<Player>('black');
-  const [userPlayer, setUserPlayer] = useState<Player>('black');
-  const [validMoves, setValidMoves] = useState<Move[]>([]);
-  const [score, setScore] = useState({ black: 2, white: 2 });
-  const [gameState, setGameState] = useState<'menu' | 'playing' | 'gameOver'>('menu');
-  const [aiIsThinking, setAiIsThinking] = useState(false);
-  const [difficulty, setDifficulty] = useState(1); // 1: Easy, 3: Medium, 5: Hard
-  const [lastMove, setLastMove] = useState<Move | null>(null);
+  const [difficulty, setDifficulty] = useState<Difficulty>('easy');
+  const [setup, setSetup] = useState<GameSetup>({ boardSize: DEFAULT_BOARD_SIZE, variant: STANDARD_VARIANT });
+  const { records, addRecords } = useGameRecords();
+  const { toast } = useToast();
+  const {
+    state, validMoves, score, aiIsThinking, aiProgress, startGame, startFromPosition, loadGame, exportGame, playMove,
+    resign, undo, redo, canUndo, canRedo, timeline, startReview, seek, exitReview, analyzeMoves, analyzeBoard, aiPlayer,
+  } = useOthelloGame(difficulty, {
+    onGameOver: record => addRecords([record]),
+    onAiError: error => {
+      console.error("Error choosing the AI's move:", error);
+      toast({
+        title: "Error",
+        description: "The AI search failed, so it played the move that flips the most discs.",
+        variant: "destructive",
+      });
+    },
+  });
+  const { board, start: { variant }, currentPlayer, userPlayer, lastMove, status: gameState, result, events, reviewPly } = state;
+  const reviewEntry = gameState === 'review' ? timeline[reviewPly] : null;
+  const reviewEvent = reviewEntry?.event;
+  const displayedBoard = reviewEntry ? reviewEntry.board : board;
+  // Book openings are only named for games from the standard start.
+  const openingName = useMemo(
+    () =>
+      variant.start === 'standard'
+        ? identifyOpening(
+            getDefaultOpeningBook(),
+            eventsToTranscript(reviewEntry ? events.slice(0, reviewPly) : events),
+            board.length
+          )
+        : null,
+    [variant.start, reviewEntry, events, reviewPly, board.length]
+  );
+
+  // The position the editor opened on, while it is open.
+  const [editorStart, setEditorStart] = useState<PositionSetup | null>(null);
+
+  const [showStability, setShowStability] = useState(false);
+  const stableDiscs = useMemo(() => {
+    if (!showStability) return [];
+    const { black, white } = getStableSquares(displayedBoard);
+    return [...black, ...white];
+  }, [showStability, displayedBoard]);
   
   const [suggestion, setSuggestion] = useState<SuggestGoodMovesOutput | null>(null);
   const [suggestionLoading, setSuggestionLoading] = useState(false);
@@ -34,60 +85,68 @@ export default function Home() {
   const [visualization, setVisualization] = useState<{ explanation: string } | null>(null);
   const [visualizationLoading, setVisualizationLoading] = useState(false);
   
-  const [trainingData, setTrainingData] = useState([
-    { games: 10, aiWins: 4, opponentWins: 6 },
-    { games: 20, aiWins: 7, opponentWins: 13 },
-    { games: 30, aiWins: 15, opponentWins: 15 },
-    { games: 40, aiWins: 25, opponentWins: 15 },
-    { games: 50, aiWins: 35, opponentWins: 15 },
-  ]);
-
-  const { toast } = useToast();
-
-  const updateGameData = useCallback(() => {
-    const newValidMoves = getValidMoves(board, currentPlayer);
-    setValidMoves(newValidMoves);
-    setScore(getScore(board));
-
-    if (newValidMoves.length === 0) {
-      const opponent = getOpponent(currentPlayer);
-      const opponentMoves = getValidMoves(board, opponent);
-      if (opponentMoves.length === 0) {
-        setGameState('gameOver');
-      } else {
-        // Pass turn
-        setCurrentPlayer(opponent);
-      }
-    }
-  }, [board, currentPlayer]);
+  const recordSnapshot = useCallback(
+    (snapshot: TrainingSnapshot) => addRecords(selfPlayRecords(snapshot, new Date().toISOString())),
+    [addRecords]
+  );
+  const { snapshots, isTraining, totalGenerations, startTraining } = useTrainingSession({ onSnapshot: recordSnapshot });
 
-  useEffect(() => {
-    if (gameState === 'playing') {
-      updateGameData();
-    }
-  }, [board, currentPlayer, gameState, updateGameData]);
-  
   const handleCellClick = (move: Move) => {
     if (gameState !== 'playing' || currentPlayer !== userPlayer || aiIsThinking) return;
     
     const isMoveValid = validMoves.some(m => m.row === move.row && m.col === move.col);
     if (!isMoveValid) return;
 
-    const newBoard = applyMove(board, currentPlayer, move.row, move.col);
-    setBoard(newBoard);
-    setLastMove(move);
-    setCurrentPlayer(getOpponent(currentPlayer));
+    playMove(move);
     setSuggestion(null); // Clear suggestion after move
   };
 
   const startNewGame = (player: Player) => {
-    setBoard(createInitialBoard());
-    setUserPlayer(player);
-    setCurrentPlayer('black');
-    setGameState('playing');
+    startGame(player, setup);
+    setEditorStart(null);
+    setSuggestion(null);
+    setVisualization(null);
+  };
+
+  // Opens the editor on the board shown, or a fresh start of the chosen size before the first game.
+  const editPosition = () => {
+    setEditorStart(
+      gameState === 'menu'
+        ? { board: createInitialBoard(setup.boardSize), sideToMove: 'black' }
+        : { board: displayedBoard, sideToMove: reviewEntry ? reviewEntry.currentPlayer : currentPlayer }
+    );
+  };
+
+  const playPosition = (player: Player, { board: startBoard, sideToMove }: PositionSetup) => {
+    startFromPosition(player, {
+      board: startBoard,
+      currentPlayer: sideToMove,
+      variant: { scoring: setup.variant.scoring, start: 'custom' },
+    });
+    setEditorStart(null);
     setSuggestion(null);
     setVisualization(null);
-    setLastMove(null);
+  };
+
+  const importGame = (replay: GgfReplay) => {
+    loadGame(replay);
+    setEditorStart(null);
+    setSuggestion(null);
+    setVisualization(null);
+    const { black, white } = replay.game;
+    toast({
+      title: "Game Imported",
+      description: `${black || 'Black'} vs ${white || 'White'}, ${replay.moves.length} moves.`,
+    });
+  };
+
+  const downloadGame = () => {
+    const url = URL.createObjectURL(new Blob([exportGame()], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'othello-game.ggf';
+    link.click();
+    URL.revokeObjectURL(url);
   };
   
   const handleSuggestMove = async (retries = 2) => {
@@ -102,7 +161,7 @@ export default function Home() {
       const { move } = response;
       if (isValidMove(board, currentPlayer, move.row, move.col)) {
         setSuggestion(response);
-        const moveString = `${rowLabels[response.move.row]}${response.move.col + 1}`;
+        const moveString = moveToSquare(response.move);
         toast({
           title: "AI Suggestion",
           description: `The AI suggests moving to ${moveString}.`,
@@ -134,19 +193,21 @@ export default function Home() {
     setVisualizationLoading(true);
     setVisualization(null);
     try {
-      const possibleMoves = getValidMoves(board, 'white').map(move => {
-        const tempBoard = applyMove(board, 'white', move.row, move.col);
-        const newScore = getScore(tempBoard);
-        return {
-          row: move.row,
-          col: move.col,
-          score: newScore.white - score.white
-        }
-      });
-      
+      const analysis = await analyzeMoves(aiPlayer);
+      const possibleMoves = analysis.moves.map(({ move, score, pv }) => ({
+        row: move.row,
+        col: move.col,
+        square: moveToSquare(move),
+        // Solved scores are reported as the final disc margin.
+        score: analysis.solved ? score / FINAL_SCORE_SCALE : score,
+        principalVariation: serializeTranscript(pv),
+      }));
+
       const response = await visualizeAiDecision({
         boardState: boardToString(board),
-        possibleMoves: possibleMoves,
+        possibleMoves,
+        searchDepth: analysis.depth,
+        solved: analysis.solved,
       });
       setVisualization(response);
       toast({
@@ -166,43 +227,16 @@ export default function Home() {
   };
   
   const runNewTrainingSession = () => {
-    startNewGame(userPlayer);
-    setTrainingData(prev => prev.map(d => ({
-        ...d,
-        aiWins: Math.floor(Math.random() * d.games),
-        opponentWins: Math.floor(Math.random() * d.games),
-    })))
+    startTraining();
     toast({
       title: "New Training Session",
-      description: "AI model has been reset and is learning from scratch.",
+      description: `The AI is playing itself for ${totalGenerations} generations, starting from its original weights.`,
     });
   }
 
-  const aiPlayer = useMemo(() => getOpponent(userPlayer), [userPlayer]);
-
-  useEffect(() => {
-    if (gameState === 'playing' && currentPlayer === aiPlayer && !aiIsThinking) {
-      setAiIsThinking(true);
-      setTimeout(() => {
-        const moves = getValidMoves(board, aiPlayer);
-        if (moves.length > 0) {
-          const { move: bestMove } = minimax(board, difficulty, true, aiPlayer);
-
-          if(bestMove){
-            const newBoard = applyMove(board, aiPlayer, bestMove.row, bestMove.col);
-            setBoard(newBoard);
-            setLastMove(bestMove);
-            setCurrentPlayer(userPlayer);
-          }
-        }
-        setAiIsThinking(false);
-      }, 500);
-    }
-  }, [gameState, currentPlayer, aiPlayer, aiIsThinking, board, userPlayer, difficulty]);
-
   const displayedSuggestion = suggestion && (
     <div className="text-sm p-3 bg-muted rounded-md space-y-1">
-      <p><strong className="text-primary">Suggested Move:</strong> {`${rowLabels[suggestion.move.row]}${suggestion.move.col + 1}`}</p>
+      <p><strong className="text-primary">Suggested Move:</strong> {moveToSquare(suggestion.move)}</p>
       <p className="font-code text-muted-foreground">{suggestion.rationale}</p>
     </div>
   );
@@ -231,11 +265,31 @@ export default function Home() {
             gameState={gameState}
             currentPlayer={currentPlayer}
             score={score}
+            result={result}
             onStartGame={startNewGame}
+            onResign={resign}
+            onReview={startReview}
+            onExport={downloadGame}
+            onImport={importGame}
+            onEditPosition={editPosition}
             userPlayer={userPlayer}
             aiIsThinking={aiIsThinking}
+            aiProgress={aiProgress}
             difficulty={difficulty}
             onDifficultyChange={setDifficulty}
+            setup={setup}
+            onSetupChange={setSetup}
+            variant={variant}
+            openingName={openingName}
+          />
+          <MoveListPanel
+            events={events}
+            onUndo={() => { undo(); setSuggestion(null); }}
+            onRedo={() => { redo(); setSuggestion(null); }}
+            canUndo={canUndo && !aiIsThinking}
+            canRedo={canRedo && !aiIsThinking}
+            activePly={reviewEntry ? reviewPly : undefined}
+            onSelect={reviewEntry ? seek : undefined}
           />
           <Card>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -253,6 +307,7 @@ export default function Home() {
                 visualization={visualization}
                 visualizationLoading={visualizationLoading}
                 onNewTraining={runNewTrainingSession}
+                trainingStatus={isTraining ? `Generation ${snapshots.length} of ${totalGenerations}` : null}
                 isPlayerTurn={currentPlayer === userPlayer && gameState === 'playing'}
               />
             </CardContent>
@@ -260,14 +315,46 @@ export default function Home() {
         </div>
         
         <div className="lg:col-span-6">
-          <OthelloBoard
-            board={board}
-            onCellClick={handleCellClick}
-            validMoves={currentPlayer === userPlayer ? validMoves : []}
-            player={userPlayer}
-            suggestedMove={suggestion?.move ?? null}
-            lastMove={lastMove}
-          />
+          <div className="flex items-center justify-end gap-2 mb-2">
+            <Switch id="show-stability" checked={showStability} onCheckedChange={setShowStability} />
+            <Label htmlFor="show-stability">Show stable discs</Label>
+          </div>
+          {editorStart ? (
+            <PositionEditor
+              key={serializePosition(editorStart)}
+              initial={editorStart}
+              scoring={setup.variant.scoring}
+              onPlay={playPosition}
+              onAnalyze={({ board: target, sideToMove }, signal) =>
+                analyzeBoard(target, sideToMove, setup.variant.scoring, signal)
+              }
+              onExit={() => setEditorStart(null)}
+            />
+          ) : reviewEntry ? (
+            <>
+              <OthelloBoard
+                board={reviewEntry.board}
+                onCellClick={() => {}}
+                validMoves={[]}
+                player={userPlayer}
+                suggestedMove={null}
+                lastMove={reviewEvent?.type === 'move' ? reviewEvent.move : null}
+                flippedDiscs={reviewEvent?.type === 'move' ? reviewEvent.flips : []}
+                stableDiscs={stableDiscs}
+              />
+              <ReplayControls timeline={timeline} ply={reviewPly} onSeek={seek} onExit={result ? exitReview : undefined} />
+            </>
+          ) : (
+            <OthelloBoard
+              board={board}
+              onCellClick={handleCellClick}
+              validMoves={currentPlayer === userPlayer ? validMoves : []}
+              player={userPlayer}
+              suggestedMove={suggestion?.move ?? null}
+              lastMove={lastMove}
+              stableDiscs={stableDiscs}
+            />
+          )}
         </div>
         
         <div className="lg:col-span-3">
@@ -279,7 +366,7 @@ export default function Home() {
                 </CardTitle>
             </CardHeader>
             <CardContent>
-              <WinRateChart data={trainingData} />
+              <WinRateHistory records={records} />
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Trophy, BarChart } from 'lucide-react';
+import WinRateChart from '@/components/win-rate-chart';
+import { entrantWinRateSeries, type TournamentReport } from '@/lib/tournament';
+import { batchSizeFor } from '@/lib/win-rate';
+
+// Written by `npm run tournament` unless it is given another --out path.
+const RESULTS_URL = '/tournament-results.json';
+const CHART_BATCHES = 8;
+
+export default function TournamentPage() {
+  const [report, setReport] = useState<TournamentReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [entrant, setEntrant] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(RESULTS_URL)
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: TournamentReport | null) => {
+        if (data) setReport(data);
+      })
+      .catch(() => {
+        // No published results; a file can still be loaded by hand.
+      });
+  }, []);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const data = JSON.parse(await file.text()) as TournamentReport;
+      if (!Array.isArray(data.standings) || !Array.isArray(data.games)) {
+        throw new Error('missing standings or games');
+      }
+      setReport(data);
+      setEntrant(null);
+      setError(null);
+    } catch (e) {
+      setError(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const selected = entrant ?? report?.standings[0]?.name ?? null;
+  const chartData = useMemo(() => {
+    if (!report || !selected) return [];
+    const standing = report.standings.find(s => s.name === selected);
+    return entrantWinRateSeries(report, selected, batchSizeFor(standing?.games ?? 0, CHART_BATCHES));
+  }, [report, selected]);
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-4 sm:p-6 lg:p-8 font-body">
+      <header className="mb-8">
+        <Button asChild variant="outline">
+          <Link href="/">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Game
+          </Link>
+        </Button>
+      </header>
+      <main className="max-w-4xl mx-auto space-y-8">
+        <div className="text-center">
+          <h1 className="text-4xl sm:text-5xl font-bold font-headline tracking-tighter text-primary">
+            Tournament Results
+          </h1>
+          <p className="text-muted-foreground mt-2 text-lg">
+            {report
+              ? `${report.config.name}: ${report.config.format}, ${report.games.length} games${report.aborted ? ' (stopped early)' : ''}`
+              : 'Engine configurations played against each other, rated by Elo.'}
+          </p>
+        </div>
+
+        {!report && (
+          <Card>
+            <CardContent className="pt-6 space-y-2 text-muted-foreground">
+              <p>
+                No results yet. Run <code className="font-code">npm run tournament</code> to play the built-in engines
+                against each other; the results are written to <code className="font-code">public{RESULTS_URL}</code> and
+                shown here. You can also load a results file below.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {report && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-2xl">
+                <Trophy className="w-6 h-6 text-primary" />
+                Standings
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Engine</TableHead>
+                    <TableHead className="text-right">Games</TableHead>
+                    <TableHead className="text-right">W / L / D</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                    <TableHead className="text-right">Elo</TableHead>
+                    <TableHead className="text-right">95% interval</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.standings.map(standing => (
+                    <TableRow key={standing.name}>
+                      <TableCell className="font-medium">{standing.name}</TableCell>
+                      <TableCell className="text-right">{standing.games}</TableCell>
+                      <TableCell className="text-right">
+                        {standing.wins} / {standing.losses} / {standing.draws}
+                      </TableCell>
+                      <TableCell className="text-right">{(standing.score * 100).toFixed(1)}%</TableCell>
+                      <TableCell className="text-right font-bold">{standing.elo}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {standing.eloLow} – {standing.eloHigh}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {report && selected && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2 text-2xl">
+                <BarChart className="w-6 h-6 text-primary" />
+                Results by Batch
+              </CardTitle>
+              <Select value={selected} onValueChange={setEntrant}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {report.standings.map(standing => (
+                    <SelectItem key={standing.name} value={standing.name}>{standing.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              <WinRateChart data={chartData} />
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="tournament-file">Load a results file</Label>
+          <Input id="tournament-file" type="file" accept="application/json,.json" onChange={handleFile} />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+      </main>
+    </div>
+  );
+}
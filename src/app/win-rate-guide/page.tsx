@@ -5,16 +5,11 @@ import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArrowLeft, BarChart, TrendingUp, TrendingDown } from 'lucide-react';
-import WinRateChart from '@/components/win-rate-chart';
+import WinRateHistory from '@/components/win-rate-history';
+import { useGameRecords } from '@/hooks/use-game-records';
 
 export default function WinRateGuidePage() {
-  const exampleData = [
-    { games: 10, aiWins: 3, opponentWins: 7 },
-    { games: 20, aiWins: 8, opponentWins: 12 },
-    { games: 30, aiWins: 16, opponentWins: 14 },
-    { games: 40, aiWins: 26, opponentWins: 14 },
-    { games: 50, aiWins: 38, opponentWins: 12 },
-  ];
+  const { records } = useGameRecords();
 
   return (
     <div className="min-h-screen bg-background text-foreground p-4 sm:p-6 lg:p-8 font-body">
@@ -51,10 +46,10 @@ export default function WinRateGuidePage() {
           </CardHeader>
           <CardContent className="space-y-4 text-muted-foreground">
             <p>
-              The "Win-Rate Progress" chart is a visual representation of the AI's performance over a series of simulated games. It's designed to show how an AI model might improve as it gains more "experience." In this application, the data is for demonstration purposes and is simulated when you start a new training session.
+              The "Win-Rate Progress" chart shows the results of real games saved in this browser: every game you finish against the AI, at any difficulty, and every match the AI plays during self-play training, where after each generation the updated AI plays a short match against the untrained AI. The chart below shows the games saved so far; use the filters to pick an opponent, the color the AI played, or a range of dates.
             </p>
             <div className="p-4 border rounded-lg">
-                <WinRateChart data={exampleData} />
+                <WinRateHistory records={records} />
             </div>
           </CardContent>
         </Card>
@@ -69,16 +64,16 @@ export default function WinRateGuidePage() {
             </CardHeader>
             <CardContent className="space-y-4 text-muted-foreground">
                 <p>
-                    <strong>X-Axis (Horizontal):</strong> This represents the total number of games played in a training batch (e.g., 10 G, 20 G). It shows the progression of the training process.
+                    <strong>X-Axis (Horizontal):</strong> Games are grouped into batches in the order they were played, and each bar is labelled with the number of games played by the end of its batch (e.g., 20 G, 40 G). Batches grow with the number of games so the chart never has more than eight bars.
                 </p>
                 <p>
-                    <strong>Y-Axis (Vertical):</strong> This shows the number of wins.
+                    <strong>Y-Axis (Vertical):</strong> This shows the number of wins in the batch. Draws count towards the games but not towards either color.
                 </p>
                 <div>
                     <p><strong>Bars:</strong> Each bar is split into two colors:</p>
                     <ul className="list-disc pl-5 mt-2 space-y-1">
                         <li><span className="font-semibold text-primary">Blue (AI Wins):</span> The bottom portion of the bar shows the number of games won by our AI.</li>
-                        <li><span className="font-semibold text-muted-foreground/80">Gray (Opponent Wins):</span> The top portion shows the number of games won by the opponent.</li>
+                        <li><span className="font-semibold text-muted-foreground/80">Gray (Opponent Wins):</span> The top portion shows the number of games won by the opponent: you, or the untrained AI in self-play games.</li>
                     </ul>
                 </div>
             </CardContent>
@@ -92,13 +87,13 @@ export default function WinRateGuidePage() {
             </CardHeader>
             <CardContent className="space-y-4 text-muted-foreground">
                 <p>
-                    The primary goal is to see the blue portion of the bars (AI Wins) grow larger as you move from left to right across the chart.
+                    With "Self-play training" selected, the goal is to see the blue portion of the bars (AI Wins) grow larger as you move from left to right across the chart. Against a difficulty, a shrinking blue portion means you are getting better at beating that level.
                 </p>
                 <p>
                    An upward trend in the AI's win count across game batches indicates that the AI is "learning" and improving its strategy. A successful training session would show a clear dominance of the AI's wins over the opponent's wins in later batches.
                 </p>
                  <p>
-                    Clicking the "Start New Training Session" button will generate a new set of random data to simulate a fresh learning cycle for the AI.
+                    Clicking the "Start New Training Session" button resets the AI to its original weights and trains it again from there. For longer sessions, run <code className="font-code">npm run train</code>, which saves the weights of every generation to disk.
                 </p>
             </CardContent>
             </Card>
@@ -11,6 +11,8 @@ interface AIPanelProps {
   visualization: { explanation: string } | null;
   visualizationLoading: boolean;
   onNewTraining: () => void;
+  // Progress of the running training session, or null when none is running.
+  trainingStatus: string | null;
   isPlayerTurn: boolean;
 }
 
@@ -22,6 +24,7 @@ export default function AiPanel({
   visualization,
   visualizationLoading,
   onNewTraining,
+  trainingStatus,
   isPlayerTurn,
 }: AIPanelProps) {
   return (
@@ -62,11 +65,16 @@ export default function AiPanel({
 
        <Button
         onClick={onNewTraining}
+        disabled={trainingStatus !== null}
         className="w-full"
         variant="outline"
       >
-        <Repeat className="mr-2 h-4 w-4" />
-        Start New Training Session
+        {trainingStatus !== null ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Repeat className="mr-2 h-4 w-4" />
+        )}
+        {trainingStatus ?? 'Start New Training Session'}
       </Button>
 
     </div>
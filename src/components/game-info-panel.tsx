@@ -1,44 +1,117 @@
 'use client';
 
 import type { Player } from '@/types/othello';
+import type { GameResult, GameStatus } from '@/lib/game';
+import type { EngineProgress } from '@/lib/engine';
+import type { GgfReplay } from '@/lib/ggf';
+import type { Difficulty, GameSetup } from '@/hooks/use-othello-game';
+import { BOARD_SIZES } from '@/lib/bitboard';
+import {
+  SCORING_RULES,
+  START_LAYOUTS,
+  GENERATED_LAYOUTS,
+  variantName,
+  isStandardVariant,
+  type GameVariant,
+  type StartLayout,
+} from '@/lib/variants';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { User, Cpu } from 'lucide-react';
+import { User, Cpu, Flag, History, BookOpen, Shuffle, Pencil, Download } from 'lucide-react';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import GgfImportDialog from '@/components/ggf-import-dialog';
 
 interface GameInfoPanelProps {
-  gameState: 'menu' | 'playing' | 'gameOver';
+  gameState: GameStatus;
   currentPlayer: Player;
   score: { black: number; white: number };
+  result: GameResult | null;
   onStartGame: (player: Player) => void;
+  onResign: () => void;
+  onReview: () => void;
+  // Saves the finished or imported game as a GGF file.
+  onExport: () => void;
+  // Opens an imported game in review.
+  onImport: (replay: GgfReplay) => void;
+  // Opens the position editor on the board shown.
+  onEditPosition: () => void;
   userPlayer: Player;
   aiIsThinking: boolean;
-  difficulty: number;
-  onDifficultyChange: (level: number) => void;
+  aiProgress: EngineProgress | null;
+  difficulty: Difficulty;
+  onDifficultyChange: (level: Difficulty) => void;
+  // Board size and variant for the next game.
+  setup: GameSetup;
+  onSetupChange: (setup: GameSetup) => void;
+  // The variant of the game on the board.
+  variant: GameVariant;
+  // The book opening reached so far, if any.
+  openingName: string | null;
 }
 
 export default function GameInfoPanel({
   gameState,
   currentPlayer,
   score,
+  result,
   onStartGame,
+  onResign,
+  onReview,
+  onExport,
+  onImport,
+  onEditPosition,
   userPlayer,
   aiIsThinking,
+  aiProgress,
   difficulty,
   onDifficultyChange,
+  setup,
+  onSetupChange,
+  variant,
+  openingName,
 }: GameInfoPanelProps) {
     const renderGameState = () => {
-        if (gameState === 'gameOver') {
-            const winner = score.black > score.white ? 'Black' : score.white > score.black ? 'White' : 'Draw';
+        if ((gameState === 'gameOver' || gameState === 'review') && result) {
+            const winner = result.winner === 'draw' ? 'Draw' : result.winner === 'black' ? 'Black' : 'White';
+            const loser = winner === 'Black' ? 'White' : 'Black';
             return (
                 <div className="text-center">
                     <h3 className="text-xl font-bold text-primary">Game Over</h3>
                     <p>{winner === 'Draw' ? "It's a draw!" : `${winner} wins!`}</p>
+                    {result.reason === 'completed' && variant.scoring === 'misere' && (
+                        <p className="text-sm text-muted-foreground">{SCORING_RULES.misere.description}</p>
+                    )}
+                    {result.reason === 'resign' && <p className="text-sm text-muted-foreground">{loser} resigned.</p>}
+                    {result.reason === 'timeout' && <p className="text-sm text-muted-foreground">{loser} ran out of time.</p>}
+                    {gameState === 'gameOver' && (
+                        <div className="flex gap-2 mt-4">
+                            <Button className="w-full" variant="outline" onClick={onReview}>
+                                <History className="mr-2 h-4 w-4" />
+                                Review Game
+                            </Button>
+                            <Button className="w-full" variant="outline" onClick={onExport}>
+                                <Download className="mr-2 h-4 w-4" />
+                                Export GGF
+                            </Button>
+                        </div>
+                    )}
                 </div>
             )
         }
+        if (gameState === 'review') {
+            return (
+                <div className="text-center">
+                    <h3 className="text-xl font-bold text-primary">Unfinished Game</h3>
+                    <p className="text-sm text-muted-foreground">The imported game has no result.</p>
+                    <Button className="w-full mt-4" variant="outline" onClick={onExport}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Export GGF
+                    </Button>
+                </div>
+            );
+        }
         if (gameState === 'playing') {
             const isUserTurn = currentPlayer === userPlayer;
             return (
@@ -53,6 +126,19 @@ export default function GameInfoPanel({
                         <p className="font-bold text-lg capitalize">{currentPlayer}</p>
                         {aiIsThinking && <Cpu className="animate-spin" />}
                     </div>
+                    {aiIsThinking && aiProgress && (
+                        <p className="text-xs text-muted-foreground mt-2 font-code">
+                            {aiProgress.depth !== undefined
+                                ? `Depth ${aiProgress.depth} · ${aiProgress.nodes.toLocaleString()} nodes`
+                                : `${aiProgress.nodes.toLocaleString()} playouts · ${Math.round(aiProgress.score * 100)}% win rate`}
+                        </p>
+                    )}
+                    {isUserTurn && (
+                        <Button className="w-full mt-4" variant="outline" onClick={onResign}>
+                            <Flag className="mr-2 h-4 w-4" />
+                            Resign
+                        </Button>
+                    )}
                 </div>
             );
         }
@@ -78,32 +164,109 @@ export default function GameInfoPanel({
            </div>
         )}
        
+        {gameState !== 'menu' && !isStandardVariant(variant) && (
+            <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <Shuffle className="w-4 h-4" />
+                {variantName(variant)}
+            </p>
+        )}
+
+        {gameState !== 'menu' && openingName && (
+            <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <BookOpen className="w-4 h-4" />
+                {openingName}
+            </p>
+        )}
+
         {renderGameState()}
 
-        { (gameState === 'menu' || gameState === 'gameOver') && (
+        { gameState !== 'playing' && (
             <div className="space-y-4 pt-4">
                  <div className="space-y-2">
                     <Label htmlFor="difficulty">AI Difficulty</Label>
                     <Select
-                        value={String(difficulty)}
-                        onValueChange={(value) => onDifficultyChange(Number(value))}
+                        value={difficulty}
+                        onValueChange={(value) => onDifficultyChange(value as Difficulty)}
                     >
                         <SelectTrigger id="difficulty" className="w-full">
                             <SelectValue placeholder="Select difficulty" />
                         </SelectTrigger>
                         <SelectContent>
-                            <SelectItem value="1">Easy</SelectItem>
-                            <SelectItem value="3">Medium</SelectItem>
-                            <SelectItem value="5">Hard</SelectItem>
+                            <SelectItem value="easy">Easy</SelectItem>
+                            <SelectItem value="medium">Medium</SelectItem>
+                            <SelectItem value="hard">Hard</SelectItem>
+                            <SelectItem value="mcts">Monte Carlo (MCTS)</SelectItem>
+                        </SelectContent>
+                    </Select>
+                 </div>
+                 <div className="space-y-2">
+                    <Label htmlFor="board-size">Board Size</Label>
+                    <Select
+                        value={String(setup.boardSize)}
+                        onValueChange={(value) => onSetupChange({ ...setup, boardSize: Number(value) })}
+                    >
+                        <SelectTrigger id="board-size" className="w-full">
+                            <SelectValue placeholder="Select board size" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {BOARD_SIZES.map(size => (
+                                <SelectItem key={size} value={String(size)}>{size} × {size}</SelectItem>
+                            ))}
                         </SelectContent>
                     </Select>
                  </div>
+                 <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="scoring">Rules</Label>
+                        <Select
+                            value={setup.variant.scoring}
+                            onValueChange={(value) =>
+                                onSetupChange({ ...setup, variant: { ...setup.variant, scoring: value as GameVariant['scoring'] } })
+                            }
+                        >
+                            <SelectTrigger id="scoring" className="w-full">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {Object.entries(SCORING_RULES).map(([id, rule]) => (
+                                    <SelectItem key={id} value={id}>{rule.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="start-layout">Start</Label>
+                        <Select
+                            value={setup.variant.start}
+                            onValueChange={(value) =>
+                                onSetupChange({ ...setup, variant: { ...setup.variant, start: value as StartLayout } })
+                            }
+                        >
+                            <SelectTrigger id="start-layout" className="w-full">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {GENERATED_LAYOUTS.map(id => (
+                                    <SelectItem key={id} value={id}>{START_LAYOUTS[id].name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <p className="col-span-2 text-xs text-muted-foreground">
+                        {SCORING_RULES[setup.variant.scoring].description} {START_LAYOUTS[setup.variant.start].description}
+                    </p>
+                 </div>
                  <div className="space-y-2">
                     <p className="text-center text-muted-foreground">Start a new game as:</p>
                     <div className="flex gap-2">
                         <Button className="w-full" onClick={() => onStartGame('black')}>Black</Button>
                         <Button className="w-full" variant="secondary" onClick={() => onStartGame('white')}>White</Button>
                     </div>
+                    <Button className="w-full" variant="outline" onClick={onEditPosition}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Set Up Position
+                    </Button>
+                    <GgfImportDialog onImport={onImport} />
                  </div>
             </div>
         )}
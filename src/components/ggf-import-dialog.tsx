@@ -0,0 +1,90 @@
+'use client';
+
+import { useState, type ChangeEvent } from 'react';
+import { validateGgf, type GgfReplay } from '@/lib/ggf';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Upload } from 'lucide-react';
+
+interface GgfImportDialogProps {
+  // Called with a game whose every move has been checked against the rules.
+  onImport: (replay: GgfReplay) => void;
+}
+
+export default function GgfImportDialog({ onImport }: GgfImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setError(null);
+    } catch (e) {
+      setError(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const load = () => {
+    const result = validateGgf(text);
+    if (!result.valid) {
+      setError(result.error);
+      return;
+    }
+    onImport(result);
+    setOpen(false);
+    setText('');
+    setError(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="w-full" variant="outline">
+          <Upload className="mr-2 h-4 w-4" />
+          Import Game
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Game</DialogTitle>
+          <DialogDescription>
+            Paste a game in Generic Game Format (GGF) or open a .ggf file. Every move is checked before the game
+            opens for review; a file with several games loads the first.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="ggf-file">File</Label>
+          <Input id="ggf-file" type="file" accept=".ggf,text/plain" onChange={handleFile} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ggf-text">Game</Label>
+          <Textarea
+            id="ggf-text"
+            className="font-code min-h-40"
+            placeholder="(;GM[Othello]PB[...]PW[...]TY[8]BO[8 ... *]B[F5]W[D6]...;)"
+            value={text}
+            onChange={event => setText(event.target.value)}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button onClick={load} disabled={!text.trim()}>Load Game</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { GameEvent } from '@/lib/game';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { moveToSquare } from '@/lib/notation';
+import { ListOrdered, Undo2, Redo2 } from 'lucide-react';
+
+interface MoveListPanelProps {
+  events: GameEvent[];
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  // While reviewing, the number of events shown on the board; entries are clickable.
+  activePly?: number;
+  onSelect?: (ply: number) => void;
+}
+
+export default function MoveListPanel({ events, onUndo, onRedo, canUndo, canRedo, activePly, onSelect }: MoveListPanelProps) {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [events.length]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-lg font-medium flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-primary" />
+          Moves
+        </CardTitle>
+        <div className="flex gap-1">
+          <Button size="icon" variant="ghost" onClick={onUndo} disabled={!canUndo} aria-label="Undo move">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="ghost" onClick={onRedo} disabled={!canRedo} aria-label="Redo move">
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="h-48">
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No moves yet.</p>
+          ) : (
+            <ol className="text-sm font-code space-y-1 pr-3">
+              {events.map((event, index) => (
+                <li
+                  key={index}
+                  className={cn(
+                    "grid grid-cols-[2rem_1rem_1fr_auto] items-center gap-2 rounded-sm",
+                    onSelect && "cursor-pointer hover:bg-muted",
+                    activePly === index + 1 && "bg-muted"
+                  )}
+                  onClick={() => onSelect?.(index + 1)}
+                >
+                  <span className="text-muted-foreground text-right">{index + 1}.</span>
+                  <span className={cn(
+                    "w-3 h-3 rounded-full border border-muted-foreground",
+                    event.player === 'black' ? 'bg-black' : 'bg-white'
+                  )} />
+                  <span>
+                    {event.type === 'move' ? moveToSquare(event.move) : 'Pass'}
+                    {event.type === 'move' && (
+                      <span className="text-muted-foreground"> +{event.flips.length}</span>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground">{event.score.black}-{event.score.white}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+          <div ref={endRef} />
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
 
 import type { BoardState, Player, Move } from '@/types/othello';
 import { cn } from '@/lib/utils';
+import { columnLabel, rowLabel } from '@/lib/notation';
 
 const BlackPiece = () => (
   <div className="w-full h-full rounded-full bg-black shadow-inner" />
@@ -18,43 +19,59 @@ interface OthelloBoardProps {
   player: Player;
   suggestedMove: Move | null;
   lastMove: Move | null;
+  flippedDiscs?: Move[];
+  stableDiscs?: Move[];
+  // Puts the board in editor mode: pressing a square, or dragging across
+  // squares with the button held, paints them.
+  onPaint?: (move: Move) => void;
 }
 
+// Literal class names so Tailwind keeps them, one per supported board size.
+const GRID_ROWS: Record<number, string> = { 6: 'grid-rows-6', 8: 'grid-rows-8', 10: 'grid-rows-10', 12: 'grid-rows-12' };
+const GRID_COLS: Record<number, string> = { 6: 'grid-cols-6', 8: 'grid-cols-8', 10: 'grid-cols-10', 12: 'grid-cols-12' };
+
 const GridLabel = ({ label }: { label: string }) => (
     <div className="flex items-center justify-center text-sm font-bold text-muted-foreground">
         {label}
     </div>
 )
 
-export default function OthelloBoard({ board, onCellClick, validMoves, suggestedMove, lastMove }: OthelloBoardProps) {
-  const rowLabels = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+export default function OthelloBoard({ board, onCellClick, validMoves, suggestedMove, lastMove, flippedDiscs = [], stableDiscs = [], onPaint }: OthelloBoardProps) {
+  const gridRows = GRID_ROWS[board.length];
+  const gridCols = GRID_COLS[board.length];
   return (
     <div className="w-full max-w-2xl mx-auto aspect-square">
         <div className="grid grid-cols-[auto_1fr] gap-2 h-full">
             {/* Row Labels */}
-            <div className="grid grid-rows-8 gap-1">
-                {rowLabels.map((label) => <GridLabel key={`row-${label}`} label={label} />)}
+            <div className={cn("grid gap-1", gridRows)}>
+                {board.map((_, i) => <GridLabel key={`row-${i}`} label={rowLabel(i)} />)}
             </div>
             <div className="grid grid-rows-[auto_1fr] gap-2 h-full">
                 {/* Column Labels */}
-                <div className="grid grid-cols-8 gap-1">
-                    {Array.from({length: 8}, (_, i) => <GridLabel key={`col-${i}`} label={`${i + 1}`} />)}
+                <div className={cn("grid gap-1", gridCols)}>
+                    {board[0].map((_, i) => <GridLabel key={`col-${i}`} label={columnLabel(i)} />)}
                 </div>
                 {/* Board */}
-                <div className="w-full h-full bg-green-900 p-2 grid grid-cols-8 gap-1 rounded-lg shadow-2xl">
+                <div className={cn("w-full h-full bg-green-900 p-2 grid gap-1 rounded-lg shadow-2xl", gridCols)}>
                 {board.map((row, rowIndex) =>
                     row.map((cell, colIndex) => {
                     const isMoveValid = validMoves.some(m => m.row === rowIndex && m.col === colIndex);
                     const isSuggestedMove = suggestedMove && suggestedMove.row === rowIndex && suggestedMove.col === colIndex;
                     const isLastMove = lastMove && lastMove.row === rowIndex && lastMove.col === colIndex;
+                    const isFlipped = flippedDiscs.some(m => m.row === rowIndex && m.col === colIndex);
+                    const isStable = stableDiscs.some(m => m.row === rowIndex && m.col === colIndex);
                     return (
                         <div
                         key={`${rowIndex}-${colIndex}`}
                         className={cn(
                             "aspect-square bg-green-800 flex items-center justify-center p-1 rounded-sm relative",
-                            isMoveValid ? "cursor-pointer hover:bg-green-700 transition-colors" : ""
+                            isMoveValid || onPaint ? "cursor-pointer hover:bg-green-700 transition-colors" : ""
                         )}
                         onClick={() => onCellClick({ row: rowIndex, col: colIndex })}
+                        onPointerDown={onPaint && (() => onPaint({ row: rowIndex, col: colIndex }))}
+                        onPointerEnter={onPaint && (event => {
+                            if (event.buttons === 1) onPaint({ row: rowIndex, col: colIndex });
+                        })}
                         >
                         <div className="relative w-full h-full flex items-center justify-center">
                             {cell === 'black' && <BlackPiece />}
@@ -62,6 +79,12 @@ export default function OthelloBoard({ board, onCellClick, validMoves, suggested
                             {cell === 'empty' && isMoveValid && (
                                 <div className="w-1/3 h-1/3 bg-primary/50 rounded-full" />
                             )}
+                            {isStable && (
+                                <div className="absolute inset-0 rounded-full bg-emerald-500/40 ring-2 ring-emerald-400" />
+                            )}
+                            {isFlipped && (
+                                <div className="absolute inset-0 rounded-full ring-2 ring-amber-400" />
+                            )}
                             {isSuggestedMove && (
                                 <div className="absolute inset-0 bg-red-500/50 rounded-full animate-pulse" />
                             )}
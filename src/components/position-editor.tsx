@@ -0,0 +1,226 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { CellState, Player, Move, Scoring } from '@/types/othello';
+import type { AnalysisResult } from '@/lib/analysis';
+import { createInitialBoard, getValidMoves } from '@/lib/othello';
+import { BOARD_SIZES } from '@/lib/bitboard';
+import { FINAL_SCORE_SCALE } from '@/lib/minimax';
+import { SCORING_RULES } from '@/lib/variants';
+import { moveToSquare, serializePosition, validatePosition, type PositionSetup } from '@/lib/notation';
+import OthelloBoard from '@/components/othello-board';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eraser, Play, Search, X } from 'lucide-react';
+
+interface PositionEditorProps {
+  initial: PositionSetup;
+  // The rules the position is played and analysed under.
+  scoring: Scoring;
+  onPlay: (userPlayer: Player, setup: PositionSetup) => void;
+  // Resolves early, with the result so far, once `signal` aborts.
+  onAnalyze: (setup: PositionSetup, signal: AbortSignal) => Promise<AnalysisResult>;
+  onExit: () => void;
+}
+
+const BRUSHES: { cell: CellState; label: string }[] = [
+  { cell: 'black', label: 'Black' },
+  { cell: 'white', label: 'White' },
+  { cell: 'empty', label: 'Empty' },
+];
+
+const SHOWN_MOVES = 5;
+
+function formatScore(score: number, solved: boolean): string {
+  const value = solved ? score / FINAL_SCORE_SCALE : Math.round(score);
+  const signed = value > 0 ? `+${value}` : `${value}`;
+  return solved ? `${signed} discs` : signed;
+}
+
+export default function PositionEditor({ initial, scoring, onPlay, onAnalyze, onExit }: PositionEditorProps) {
+  const [setup, setSetup] = useState(initial);
+  const [text, setText] = useState(() => serializePosition(initial));
+  const [error, setError] = useState<string | null>(null);
+  const [brush, setBrush] = useState<CellState>('black');
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  // The running analysis, stopped when the board changes or the editor closes.
+  const analysisRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => analysisRef.current?.abort(), []);
+
+  const { board, sideToMove } = setup;
+  const moves = getValidMoves(board, sideToMove);
+  const opponentMoves = getValidMoves(board, sideToMove === 'black' ? 'white' : 'black');
+  const finished = moves.length === 0 && opponentMoves.length === 0;
+
+  const update = (next: PositionSetup) => {
+    analysisRef.current?.abort();
+    setSetup(next);
+    setText(serializePosition(next));
+    setError(null);
+    setAnalysis(null);
+  };
+
+  const paint = ({ row, col }: Move) => {
+    if (board[row][col] === brush) return;
+    update({ ...setup, board: board.map((cells, r) => (r === row ? cells.map((cell, c) => (c === col ? brush : cell)) : cells)) });
+  };
+
+  const load = () => {
+    const result = validatePosition(text);
+    if (result.valid) {
+      update({ board: result.board, sideToMove: result.sideToMove });
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const analyze = async () => {
+    const controller = new AbortController();
+    analysisRef.current = controller;
+    setAnalyzing(true);
+    try {
+      const result = await onAnalyze(setup, controller.signal);
+      if (!controller.signal.aborted) setAnalysis(result);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        setError(`Could not analyze the position: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  return (
+    <>
+      <OthelloBoard
+        board={board}
+        onCellClick={() => {}}
+        validMoves={[]}
+        player={sideToMove}
+        suggestedMove={analysis?.moves[0]?.move ?? null}
+        lastMove={null}
+        onPaint={paint}
+      />
+      <Card className="mt-4">
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Paint</Label>
+              <div className="flex gap-1">
+                {BRUSHES.map(({ cell, label }) => (
+                  <Button key={cell} size="sm" variant={brush === cell ? 'default' : 'outline'} onClick={() => setBrush(cell)}>
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="side-to-move">To move</Label>
+              <Select value={sideToMove} onValueChange={value => update({ ...setup, sideToMove: value as Player })}>
+                <SelectTrigger id="side-to-move" className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="black">Black</SelectItem>
+                  <SelectItem value="white">White</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="editor-size">Size</Label>
+              <Select
+                value={String(board.length)}
+                onValueChange={value => update({ ...setup, board: createInitialBoard(Number(value)) })}
+              >
+                <SelectTrigger id="editor-size" className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOARD_SIZES.map(size => (
+                    <SelectItem key={size} value={String(size)}>{size} × {size}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-1">
+              <Button size="sm" variant="outline" onClick={() => update({ ...setup, board: createInitialBoard(board.length) })}>
+                Standard start
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => update({ ...setup, board: board.map(cells => cells.map((): CellState => 'empty')) })}
+              >
+                <Eraser className="mr-2 h-4 w-4" />
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="position-string">Position</Label>
+            <div className="flex gap-2">
+              <Input
+                id="position-string"
+                className="font-code"
+                value={text}
+                onChange={event => setText(event.target.value)}
+                onKeyDown={event => event.key === 'Enter' && load()}
+              />
+              <Button variant="outline" onClick={load}>Load</Button>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <div className="text-sm text-muted-foreground space-y-1">
+            {scoring !== 'standard' && <p>{SCORING_RULES[scoring].name}: {SCORING_RULES[scoring].description}</p>}
+            {finished && <p>Neither side can move, so there is nothing to play or analyze.</p>}
+            {!finished && moves.length === 0 && (
+              <p>{sideToMove === 'black' ? 'Black' : 'White'} has no legal move and will pass.</p>
+            )}
+          </div>
+
+          {analysis && (
+            <div className="text-sm space-y-1">
+              <p className="font-semibold">
+                {analysis.solved ? 'Solved' : `Depth ${analysis.depth}`} for {analysis.player}
+              </p>
+              <ol className="font-code space-y-1">
+                {analysis.moves.slice(0, SHOWN_MOVES).map(line => (
+                  <li key={moveToSquare(line.move)} className="flex justify-between gap-4">
+                    <span>{moveToSquare(line.move)}</span>
+                    <span>{formatScore(line.score, analysis.solved)}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            <Button onClick={() => onPlay('black', setup)} disabled={finished}>
+              <Play className="mr-2 h-4 w-4" />
+              Play as Black
+            </Button>
+            <Button variant="secondary" onClick={() => onPlay('white', setup)} disabled={finished}>
+              <Play className="mr-2 h-4 w-4" />
+              Play as White
+            </Button>
+            <Button variant="outline" onClick={analyze} disabled={moves.length === 0 || analyzing}>
+              <Search className="mr-2 h-4 w-4" />
+              {analyzing ? 'Analyzing...' : 'Analyze'}
+            </Button>
+            <Button variant="ghost" onClick={onExit}>
+              <X className="mr-2 h-4 w-4" />
+              Exit Editor
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import type { TimelineEntry } from '@/lib/game';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { moveToSquare } from '@/lib/notation';
+import { ChevronFirst, ChevronLeft, ChevronRight, ChevronLast, X } from 'lucide-react';
+
+interface ReplayControlsProps {
+  timeline: TimelineEntry[];
+  ply: number;
+  onSeek: (ply: number) => void;
+  // Left out when there is no game-over screen to return to.
+  onExit?: () => void;
+}
+
+export default function ReplayControls({ timeline, ply, onSeek, onExit }: ReplayControlsProps) {
+  const lastPly = timeline.length - 1;
+  const event = timeline[ply]?.event;
+  const description = !event
+    ? 'Starting position'
+    : `${event.player === 'black' ? 'Black' : 'White'} ${event.type === 'move' ? `plays ${moveToSquare(event.move)}, flipping ${event.flips.length}` : 'passes'}`;
+
+  return (
+    <Card className="mt-4">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-semibold">Move {ply} of {lastPly}</span>
+          <span className="text-muted-foreground">{description}</span>
+        </div>
+        <Slider
+          min={0}
+          max={lastPly}
+          step={1}
+          value={[ply]}
+          onValueChange={([value]) => onSeek(value)}
+          aria-label="Game timeline"
+        />
+        <div className="flex items-center justify-center gap-2">
+          <Button size="icon" variant="outline" onClick={() => onSeek(0)} disabled={ply === 0} aria-label="First move">
+            <ChevronFirst className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="outline" onClick={() => onSeek(ply - 1)} disabled={ply === 0} aria-label="Previous move">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="outline" onClick={() => onSeek(ply + 1)} disabled={ply === lastPly} aria-label="Next move">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button size="icon" variant="outline" onClick={() => onSeek(lastPly)} disabled={ply === lastPly} aria-label="Last move">
+            <ChevronLast className="h-4 w-4" />
+          </Button>
+          {onExit && (
+            <Button variant="ghost" onClick={onExit}>
+              <X className="mr-2 h-4 w-4" />
+              Exit Review
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
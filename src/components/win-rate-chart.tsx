@@ -7,13 +7,10 @@ import {
   ChartLegend,
   ChartLegendContent,
 } from '@/components/ui/chart';
+import type { WinRatePoint } from '@/lib/win-rate';
 
 interface WinRateChartProps {
-  data: {
-    games: number;
-    aiWins: number;
-    opponentWins: number;
-  }[];
+  data: WinRatePoint[];
 }
 
 export default function WinRateChart({ data }: WinRateChartProps) {
@@ -0,0 +1,107 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Player } from '@/types/othello';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import WinRateChart from '@/components/win-rate-chart';
+import {
+  filterGameRecords,
+  gameRecordSeries,
+  recordOutcome,
+  SELF_PLAY_LEVEL,
+  type GameRecord,
+} from '@/lib/game-records';
+
+const CHART_BATCHES = 8;
+const ALL = 'all';
+
+const LEVEL_OPTIONS = [
+  { value: ALL, label: 'All games' },
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' },
+  { value: 'mcts', label: 'Monte Carlo (MCTS)' },
+  { value: SELF_PLAY_LEVEL, label: 'Self-play training' },
+];
+
+interface WinRateHistoryProps {
+  records: GameRecord[];
+}
+
+export default function WinRateHistory({ records }: WinRateHistoryProps) {
+  const [level, setLevel] = useState(ALL);
+  const [aiColor, setAiColor] = useState<Player | typeof ALL>(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const filtered = useMemo(
+    () =>
+      filterGameRecords(records, {
+        level: level === ALL ? undefined : level,
+        aiColor: aiColor === ALL ? undefined : aiColor,
+        from: from || undefined,
+        to: to || undefined,
+      }),
+    [records, level, aiColor, from, to]
+  );
+  const series = useMemo(() => gameRecordSeries(filtered, CHART_BATCHES), [filtered]);
+  const wins = filtered.filter(record => recordOutcome(record) === 'win').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="win-rate-level" className="text-xs">Opponent</Label>
+          <Select value={level} onValueChange={setLevel}>
+            <SelectTrigger id="win-rate-level">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LEVEL_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="win-rate-color" className="text-xs">AI color</Label>
+          <Select value={aiColor} onValueChange={value => setAiColor(value as Player | typeof ALL)}>
+            <SelectTrigger id="win-rate-color">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Either</SelectItem>
+              <SelectItem value="black">Black</SelectItem>
+              <SelectItem value="white">White</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="win-rate-from" className="text-xs">From</Label>
+          <Input id="win-rate-from" type="date" value={from} max={to || undefined} onChange={e => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="win-rate-to" className="text-xs">To</Label>
+          <Input id="win-rate-to" type="date" value={to} min={from || undefined} onChange={e => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      {filtered.length > 0 ? (
+        <>
+          <WinRateChart data={series} />
+          <p className="text-sm text-muted-foreground text-center">
+            The AI won {wins} of {filtered.length} games ({((wins / filtered.length) * 100).toFixed(0)}%).
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {records.length > 0
+            ? 'No games match these filters.'
+            : 'Finish a game or start a training session to see how the AI fares.'}
+        </p>
+      )}
+    </div>
+  );
+}
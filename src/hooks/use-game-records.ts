@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { mergeGameRecords, type GameRecord } from '@/lib/game-records';
+
+const STORAGE_KEY = 'othello-dojo:game-records';
+
+// Self-play sessions add dozens of games at a time; the oldest go first.
+const MAX_RECORDS = 2000;
+
+function loadRecords(): GameRecord[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as GameRecord[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecords(records: GameRecord[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch {
+    // Storage can be full or disabled; the records still show until reload.
+  }
+}
+
+// The results of finished games, persisted in localStorage.
+export function useGameRecords() {
+  const [records, setRecords] = useState<GameRecord[]>([]);
+
+  useEffect(() => {
+    setRecords(loadRecords());
+  }, []);
+
+  const addRecords = useCallback((added: GameRecord[]) => {
+    if (added.length === 0) return;
+    setRecords(previous => {
+      const next = mergeGameRecords(previous, added, MAX_RECORDS);
+      saveRecords(next);
+      return next;
+    });
+  }, []);
+
+  const clearRecords = useCallback(() => {
+    setRecords([]);
+    saveRecords([]);
+  }, []);
+
+  return { records, addRecords, clearRecords };
+}
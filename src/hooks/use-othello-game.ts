@@ -0,0 +1,253 @@
+'use client';
+
+import { useReducer, useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import type { BoardState, Player, Move, Scoring } from '@/types/othello';
+import { createGameState, gameReducer, buildTimeline, type GameStart } from '@/lib/game';
+import { getValidMoves, getScore, getOpponent, getFlipsForMove } from '@/lib/othello';
+import { positionFromBoard, positionToBoard } from '@/lib/bitboard';
+import type { WorkerSearchLimits } from '@/lib/worker-protocol';
+import type { EngineSpec, EngineProgress } from '@/lib/engine';
+import { EVALUATION_PRESETS } from '@/lib/evaluation';
+import { humanGameRecord, type GameRecord } from '@/lib/game-records';
+import { createStartOpening, type GameVariant } from '@/lib/variants';
+import { gameToGgf, ggfGameStart, serializeGgf, type GgfReplay } from '@/lib/ggf';
+import { useSearchWorker } from './use-search-worker';
+
+const AI_MOVE_DELAY_MS = 500;
+
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'mcts';
+
+interface AiLevel {
+  engine: EngineSpec;
+  timeLimitMs: number;
+}
+
+const HARD_LEVEL = {
+  engine: { id: 'minimax', options: { evaluation: EVALUATION_PRESETS.balanced }, book: {} },
+  timeLimitMs: 1500,
+} satisfies AiLevel;
+
+// Minimax levels cap the search depth, pick the evaluation weights and set how
+// early the endgame is played perfectly; Hard searches as deep as its time allows.
+// The MCTS level plays a different kind of AI with the same time as Hard.
+// Every level above Easy opens from the book, picking lines at random.
+const DIFFICULTY_LEVELS: Record<Difficulty, AiLevel> = {
+  easy: {
+    engine: { id: 'minimax', options: { maxDepth: 1, endgameEmpties: 0, evaluation: EVALUATION_PRESETS.greedy } },
+    timeLimitMs: 250,
+  },
+  medium: {
+    engine: {
+      id: 'minimax',
+      options: { maxDepth: 3, endgameEmpties: 6, evaluation: EVALUATION_PRESETS.classic },
+      book: {},
+    },
+    timeLimitMs: 750,
+  },
+  hard: HARD_LEVEL,
+  mcts: { engine: { id: 'mcts', options: { playoutPolicy: 'corners' }, book: {} }, timeLimitMs: 1500 },
+};
+
+// Analysis always uses minimax, with Hard's settings when another engine is playing.
+function analysisLimits(difficulty: Difficulty): WorkerSearchLimits {
+  const { engine, timeLimitMs } = DIFFICULTY_LEVELS[difficulty];
+  return engine.id === 'minimax'
+    ? { ...engine.options, timeLimitMs }
+    : { ...HARD_LEVEL.engine.options, timeLimitMs: HARD_LEVEL.timeLimitMs };
+}
+
+// The legal move flipping the most discs, played when the search fails so the
+// game never stalls on the AI's turn.
+function fallbackMove(board: BoardState, player: Player): Move | null {
+  let best: Move | null = null;
+  let bestFlips = 0;
+  for (const move of getValidMoves(board, player)) {
+    const flips = getFlipsForMove(board, player, move.row, move.col).length;
+    if (flips > bestFlips) {
+      best = move;
+      bestFlips = flips;
+    }
+  }
+  return best;
+}
+
+export interface GameSetup {
+  boardSize: number;
+  variant: GameVariant;
+}
+
+interface GamePlayers {
+  black: string;
+  white: string;
+}
+
+export interface OthelloGameOptions {
+  // Called when a game ends, again with the same record id if it is undone
+  // and finished differently.
+  onGameOver?: (record: GameRecord) => void;
+  // Called when the AI's search fails, before it plays a fallback move instead.
+  onAiError?: (error: Error) => void;
+}
+
+export function useOthelloGame(difficulty: Difficulty, { onGameOver, onAiError }: OthelloGameOptions = {}) {
+  const [state, dispatch] = useReducer(gameReducer, undefined, () => createGameState());
+  // The current game's record id and level, set when it starts since the
+  // difficulty can be changed once it is over. Imported games have no id and
+  // keep the names of the players who played them.
+  const gameRef = useRef<{ id: string; level: Difficulty; players?: GamePlayers }>({ id: '', level: difficulty });
+  const onGameOverRef = useRef(onGameOver);
+  const onAiErrorRef = useRef(onAiError);
+  const [aiIsThinking, setAiIsThinking] = useState(false);
+  const [aiProgress, setAiProgress] = useState<EngineProgress | null>(null);
+  const { search, analyze } = useSearchWorker();
+
+  const { status, board, currentPlayer, userPlayer } = state;
+  const { scoring } = state.start.variant;
+  const aiPlayer = useMemo(() => getOpponent(userPlayer), [userPlayer]);
+  const validMoves = useMemo(() => getValidMoves(board, currentPlayer), [board, currentPlayer]);
+  const score = useMemo(() => getScore(board), [board]);
+
+  useEffect(() => {
+    if (status !== 'playing' || currentPlayer !== aiPlayer) {
+      return;
+    }
+
+    setAiIsThinking(true);
+    setAiProgress(null);
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const { engine, timeLimitMs } = DIFFICULTY_LEVELS[difficulty];
+      let move: Move | null;
+      try {
+        ({ move } = await search(positionFromBoard(board), aiPlayer, engine, { timeLimitMs, scoring }, {
+          signal: controller.signal,
+          onProgress: setAiProgress,
+        }));
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        onAiErrorRef.current?.(error instanceof Error ? error : new Error(String(error)));
+        move = fallbackMove(board, aiPlayer);
+      }
+      if (controller.signal.aborted) {
+        return;
+      }
+      dispatch(move ? { type: 'place', move } : { type: 'pass' });
+      setAiIsThinking(false);
+      setAiProgress(null);
+    }, AI_MOVE_DELAY_MS);
+
+    // Starting a new game while the AI is thinking cancels its pending move.
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setAiIsThinking(false);
+      setAiProgress(null);
+    };
+  }, [status, currentPlayer, aiPlayer, board, difficulty, scoring, search]);
+
+  useEffect(() => {
+    onGameOverRef.current = onGameOver;
+    onAiErrorRef.current = onAiError;
+  }, [onGameOver, onAiError]);
+
+  // Leaving review lands on the game-over screen again with the same result,
+  // which is not reported twice.
+  const { result } = state;
+  const reportedResultRef = useRef(result);
+  useEffect(() => {
+    if (status !== 'gameOver' || !result || result === reportedResultRef.current) {
+      return;
+    }
+    reportedResultRef.current = result;
+    const { id, level } = gameRef.current;
+    if (id) {
+      onGameOverRef.current?.(humanGameRecord(id, result, userPlayer, level));
+    }
+  }, [status, result, userPlayer]);
+
+  const startFromPosition = useCallback(
+    (player: Player, start: GameStart) => {
+      gameRef.current = { id: new Date().toISOString(), level: difficulty };
+      dispatch({ type: 'start', userPlayer: player, start });
+    },
+    [difficulty]
+  );
+  const startGame = useCallback(
+    (player: Player, { boardSize, variant }: GameSetup) => {
+      const opening = createStartOpening(variant, boardSize);
+      startFromPosition(player, { board: positionToBoard(opening.position), currentPlayer: opening.sideToMove, variant });
+    },
+    [startFromPosition]
+  );
+  const loadGame = useCallback(
+    ({ game, moves, ending }: GgfReplay) => {
+      gameRef.current = { id: '', level: difficulty, players: { black: game.black, white: game.white } };
+      dispatch({ type: 'load', start: ggfGameStart(game), moves, ending });
+    },
+    [difficulty]
+  );
+  // The game so far in GGF, named after whoever played it.
+  const exportGame = useCallback((): string => {
+    const { id, level, players } = gameRef.current;
+    const ai = `OthelloAI Dojo (${level})`;
+    const names = players ?? (userPlayer === 'black' ? { black: 'You', white: ai } : { black: ai, white: 'You' });
+    return serializeGgf(gameToGgf(state, names, id ? new Date(id) : undefined));
+  }, [state, userPlayer]);
+  const playMove = useCallback((move: Move) => dispatch({ type: 'place', move }), []);
+  const resign = useCallback(() => dispatch({ type: 'resign', player: userPlayer }), [userPlayer]);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const startReview = useCallback(() => dispatch({ type: 'review' }), []);
+  const seek = useCallback((ply: number) => dispatch({ type: 'seek', ply }), []);
+  const exitReview = useCallback(() => dispatch({ type: 'exitReview' }), []);
+
+  // Score every legal move for `player` with the engine settings of the
+  // selected difficulty, on any board or on the game's current one.
+  const analyzeBoard = useCallback(
+    (target: BoardState, player: Player, targetScoring: Scoring, signal?: AbortSignal) =>
+      analyze(positionFromBoard(target), player, { ...analysisLimits(difficulty), scoring: targetScoring }, { signal }),
+    [analyze, difficulty]
+  );
+  const analyzeMoves = useCallback(
+    (player: Player) => analyzeBoard(board, player, scoring),
+    [analyzeBoard, board, scoring]
+  );
+
+  const timeline = useMemo(
+    () => (status === 'review' ? buildTimeline(state.events, state.start) : []),
+    [status, state.events, state.start]
+  );
+
+  const canUndo =
+    (status === 'playing' || status === 'gameOver') &&
+    !state.loaded &&
+    state.events.some(e => e.type === 'move' && e.player === userPlayer);
+  const canRedo = status === 'playing' && !state.loaded && state.undone.length > 0;
+
+  return {
+    state,
+    aiPlayer,
+    validMoves,
+    score,
+    aiIsThinking,
+    aiProgress,
+    startGame,
+    startFromPosition,
+    loadGame,
+    exportGame,
+    playMove,
+    resign,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    timeline,
+    startReview,
+    seek,
+    exitReview,
+    analyzeMoves,
+    analyzeBoard,
+  };
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useRef, useCallback } from 'react';
+import type { Player, Position } from '@/types/othello';
+import { analyzePosition, type AnalysisResult } from '@/lib/analysis';
+import { createEngine, type EngineSpec, type EngineMove, type EngineProgress } from '@/lib/engine';
+import type {
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+  WorkerSearchLimits,
+  WorkerEngineLimits,
+} from '@/lib/worker-protocol';
+
+interface PendingRequest {
+  resolve: (result: EngineMove | AnalysisResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (report: EngineProgress) => void;
+}
+
+interface RequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (report: EngineProgress) => void;
+}
+
+// Runs the AI search in a dedicated worker so the page stays responsive.
+// Falls back to searching on the main thread where workers are unavailable.
+export function useSearchWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextIdRef = useRef(1);
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') {
+      return;
+    }
+    const worker = new Worker(new URL('../workers/search.worker.ts', import.meta.url));
+    const pending = pendingRef.current;
+
+    worker.addEventListener('message', (event: MessageEvent<SearchWorkerResponse>) => {
+      const message = event.data;
+      const request = pending.get(message.id);
+      if (!request) {
+        return;
+      }
+      if (message.type === 'progress') {
+        request.onProgress?.(message.report);
+        return;
+      }
+      pending.delete(message.id);
+      if (message.type === 'error') {
+        request.reject(new Error(message.message));
+      } else {
+        request.resolve(message.result);
+      }
+    });
+
+    workerRef.current = worker;
+    // Requests still running when the page goes away are rejected, so their
+    // callers' cleanup runs.
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      for (const request of pending.values()) {
+        request.reject(new DOMException('The search worker was closed.', 'AbortError'));
+      }
+      pending.clear();
+    };
+  }, []);
+
+  // Posts a request built for a fresh id and resolves with the worker's final reply.
+  const send = useCallback(<T extends EngineMove | AnalysisResult>(
+    worker: Worker,
+    buildRequest: (id: number) => SearchWorkerRequest,
+    { signal, onProgress }: RequestOptions
+  ): Promise<T> => {
+    const id = nextIdRef.current++;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const cancel: SearchWorkerRequest = { type: 'cancel', id };
+        worker.postMessage(cancel);
+      };
+      // A request that has been answered has nothing left to cancel.
+      const settled = <A>(finish: (value: A) => void) => (value: A) => {
+        signal?.removeEventListener('abort', onAbort);
+        finish(value);
+      };
+      pendingRef.current.set(id, {
+        resolve: settled(resolve as PendingRequest['resolve']),
+        reject: settled(reject),
+        onProgress,
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      worker.postMessage(buildRequest(id));
+    });
+  }, []);
+
+  const search = useCallback((
+    position: Position,
+    player: Player,
+    engine: EngineSpec,
+    limits: WorkerEngineLimits,
+    options: RequestOptions = {}
+  ): Promise<EngineMove> => {
+    const worker = workerRef.current;
+    if (!worker) {
+      return createEngine(engine).chooseMove(position, player, { ...limits, ...options });
+    }
+    return send<EngineMove>(worker, id => ({ type: 'search', id, position, player, engine, limits }), options);
+  }, [send]);
+
+  const analyze = useCallback((
+    position: Position,
+    player: Player,
+    limits: WorkerSearchLimits,
+    options: RequestOptions = {}
+  ): Promise<AnalysisResult> => {
+    const worker = workerRef.current;
+    if (!worker) {
+      return analyzePosition(position, player, { ...limits, signal: options.signal });
+    }
+    return send<AnalysisResult>(worker, id => ({ type: 'analyze', id, position, player, limits }), options);
+  }, [send]);
+
+  return { search, analyze };
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { runTraining, type TrainingSnapshot } from '@/lib/training';
+import type { TrainingWorkerRequest, TrainingWorkerResponse } from '@/lib/worker-protocol';
+
+const STORAGE_KEY = 'othello-dojo:training-snapshots';
+
+// A session small enough to finish in well under a minute in the browser;
+// `npm run train` runs longer sessions headlessly.
+const SESSION_CONFIG = { generations: 5, gamesPerGeneration: 20, evaluationGames: 10 };
+
+function loadSnapshots(): TrainingSnapshot[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as TrainingSnapshot[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveSnapshots(snapshots: TrainingSnapshot[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshots));
+  } catch {
+    // Storage can be full or disabled; the session still shows until reload.
+  }
+}
+
+export interface TrainingSessionOptions {
+  // Called once for every snapshot as it arrives.
+  onSnapshot?: (snapshot: TrainingSnapshot) => void;
+}
+
+// Runs self-play training sessions in a worker and keeps the snapshots of the
+// latest session in localStorage.
+export function useTrainingSession({ onSnapshot }: TrainingSessionOptions = {}) {
+  const workerRef = useRef<Worker | null>(null);
+  const fallbackRef = useRef<AbortController | null>(null);
+  const onSnapshotRef = useRef(onSnapshot);
+  const [snapshots, setSnapshots] = useState<TrainingSnapshot[]>([]);
+  const [isTraining, setIsTraining] = useState(false);
+
+  useEffect(() => {
+    onSnapshotRef.current = onSnapshot;
+  }, [onSnapshot]);
+
+  const addSnapshot = useCallback((snapshot: TrainingSnapshot) => {
+    onSnapshotRef.current?.(snapshot);
+    setSnapshots(previous => {
+      const next = [...previous, snapshot];
+      saveSnapshots(next);
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    setSnapshots(loadSnapshots());
+    if (typeof Worker === 'undefined') {
+      return;
+    }
+    const worker = new Worker(new URL('../workers/training.worker.ts', import.meta.url));
+    worker.addEventListener('message', (event: MessageEvent<TrainingWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'snapshot') {
+        addSnapshot(message.snapshot);
+        return;
+      }
+      if (message.type === 'error') {
+        console.error('Training failed:', message.message);
+      }
+      setIsTraining(false);
+    });
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [addSnapshot]);
+
+  const startTraining = useCallback(() => {
+    setSnapshots([]);
+    saveSnapshots([]);
+    setIsTraining(true);
+
+    const worker = workerRef.current;
+    if (worker) {
+      const request: TrainingWorkerRequest = { type: 'train', config: SESSION_CONFIG };
+      worker.postMessage(request);
+      return;
+    }
+    fallbackRef.current?.abort();
+    const controller = new AbortController();
+    fallbackRef.current = controller;
+    runTraining(SESSION_CONFIG, { signal: controller.signal, onSnapshot: addSnapshot })
+      .catch(error => console.error('Training failed:', error))
+      .finally(() => {
+        if (!controller.signal.aborted) setIsTraining(false);
+      });
+  }, [addSnapshot]);
+
+  const cancelTraining = useCallback(() => {
+    const request: TrainingWorkerRequest = { type: 'cancel' };
+    workerRef.current?.postMessage(request);
+    fallbackRef.current?.abort();
+    setIsTraining(false);
+  }, []);
+
+  return { snapshots, isTraining, totalGenerations: SESSION_CONFIG.generations, startTraining, cancelTraining };
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Player, Position } from '@/types/othello';
+import {
+  openWthorStore,
+  countStoredGames,
+  readPositionEntry,
+  clearWthorStore,
+  importWthorFiles,
+  type WthorFile,
+  type WthorImportProgress,
+  type WthorImportSummary,
+} from '@/lib/wthor-store';
+import { explorerKey, explorerMoves, countGames, type ExplorerMove } from '@/lib/opening-explorer';
+import type { WthorWorkerRequest, WthorWorkerResponse } from '@/lib/worker-protocol';
+
+export interface ExplorerPosition {
+  // Games in the database that reached the position within the indexed moves.
+  games: number;
+  moves: ExplorerMove[];
+}
+
+// The imported WTHOR database in IndexedDB. Imports are parsed and indexed in
+// a worker, or on the page where workers are unavailable.
+export function useWthorDatabase() {
+  const storeRef = useRef<Promise<IDBDatabase> | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const [gameCount, setGameCount] = useState<number | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<WthorImportProgress | null>(null);
+
+  const store = useCallback(() => (storeRef.current ??= openWthorStore()), []);
+
+  useEffect(() => {
+    store()
+      .then(countStoredGames)
+      .then(setGameCount)
+      .catch(() => setGameCount(0));
+    if (typeof Worker === 'undefined') {
+      return;
+    }
+    const worker = new Worker(new URL('../workers/wthor.worker.ts', import.meta.url));
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [store]);
+
+  const importInWorker = (worker: Worker, files: WthorFile[]) =>
+    new Promise<WthorImportSummary>((resolve, reject) => {
+      const onMessage = (event: MessageEvent<WthorWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          setProgress(message.progress);
+          return;
+        }
+        worker.removeEventListener('message', onMessage);
+        if (message.type === 'done') {
+          resolve(message.summary);
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+      worker.addEventListener('message', onMessage);
+      const request: WthorWorkerRequest = { type: 'import', files };
+      worker.postMessage(request, files.map(file => file.data));
+    });
+
+  const importFiles = useCallback(
+    async (selected: File[]): Promise<WthorImportSummary> => {
+      setImporting(true);
+      setProgress(null);
+      try {
+        const files = await Promise.all(selected.map(async file => ({ name: file.name, data: await file.arrayBuffer() })));
+        const worker = workerRef.current;
+        const summary = worker
+          ? await importInWorker(worker, files)
+          : await importWthorFiles(await store(), files, setProgress);
+        setGameCount(await countStoredGames(await store()));
+        return summary;
+      } finally {
+        setImporting(false);
+        setProgress(null);
+      }
+    },
+    [store]
+  );
+
+  const explore = useCallback(
+    async (position: Position, sideToMove: Player): Promise<ExplorerPosition> => {
+      const { key, symmetries } = explorerKey(position, sideToMove);
+      const entry = await readPositionEntry(await store(), key);
+      return { games: countGames(entry), moves: explorerMoves(entry, symmetries) };
+    },
+    [store]
+  );
+
+  const clear = useCallback(async () => {
+    await clearWthorStore(await store());
+    setGameCount(0);
+  }, [store]);
+
+  return { gameCount, importing, progress, importFiles, explore, clear };
+}
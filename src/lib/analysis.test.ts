@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bitsToSquares, getMovesMask, squareIndex } from './bitboard';
+import { randomOpening } from './match';
+import { createRandom } from './random';
+import { analyzePosition } from './analysis';
+
+const squaresOf = (moves: { move: { row: number; col: number } }[], size: number) =>
+  moves.map(({ move }) => squareIndex(move.row, move.col, size)).sort((a, b) => a - b);
+
+test('every legal move is scored, best first', async () => {
+  const { position, sideToMove } = randomOpening(createRandom(9), 12);
+  const result = await analyzePosition(position, sideToMove, { timeLimitMs: 60000, maxDepth: 3, endgameEmpties: 0 });
+  assert.equal(result.player, sideToMove);
+  assert.equal(result.depth, 3);
+  assert.equal(result.solved, false);
+  assert.deepEqual(squaresOf(result.moves, 8), bitsToSquares(getMovesMask(position, sideToMove)));
+  for (let i = 1; i < result.moves.length; i++) {
+    assert.ok(result.moves[i - 1].score >= result.moves[i].score);
+  }
+  for (const line of result.moves) {
+    assert.deepEqual(line.pv[0], line.move);
+  }
+});
+
+test('near the end every move is solved exactly', async () => {
+  const { position, sideToMove } = randomOpening(createRandom(2), 52);
+  const result = await analyzePosition(position, sideToMove, { timeLimitMs: 60000, endgameEmpties: 12 });
+  assert.equal(result.solved, true);
+  assert.deepEqual(squaresOf(result.moves, 8), bitsToSquares(getMovesMask(position, sideToMove)));
+  for (let i = 1; i < result.moves.length; i++) {
+    assert.ok(result.moves[i - 1].score >= result.moves[i].score);
+  }
+});
@@ -0,0 +1,135 @@
+import type { Player, Move, Position } from '@/types/othello';
+import {
+  getMovesMask,
+  playMove,
+  bitsToSquares,
+  squareBit,
+  squareIndex,
+  indexToMove,
+  emptySquares,
+  popCount,
+} from './bitboard';
+import { getOpponent } from './othello';
+import { createSearchContext, search, SearchAbortedError, FINAL_SCORE_SCALE } from './minimax';
+import { solveEndgame, DEFAULT_ENDGAME_EMPTIES } from './endgame';
+import { DEFAULT_EVALUATION } from './evaluation';
+import { TranspositionTable } from './transposition-table';
+import { MoveOrderer, DEFAULT_MOVE_ORDERING } from './move-ordering';
+import { yieldToEventLoop, extractPrincipalVariation, type SearchLimits } from './search';
+import type { TranscriptEntry } from './notation';
+
+export interface MoveAnalysis {
+  move: Move;
+  // From the analysed player's point of view, in the same units as SearchResult.score.
+  score: number;
+  // The expected continuation, starting with `move`.
+  pv: TranscriptEntry[];
+}
+
+export interface AnalysisResult {
+  player: Player;
+  // Every legal move, best first.
+  moves: MoveAnalysis[];
+  // Depth of the last iteration that finished; 0 if none did.
+  depth: number;
+  nodes: number;
+  elapsedMs: number;
+  aborted: boolean;
+  // True when every score is the exact final disc margin times FINAL_SCORE_SCALE,
+  // negated under misère scoring.
+  solved: boolean;
+}
+
+const byScore = (a: MoveAnalysis, b: MoveAnalysis) => b.score - a.score;
+
+// Scores every legal move for `player` with a full-window search, deepening
+// until the budget runs out like `iterativeDeepening`. Near the end of the game
+// every move is solved exactly instead.
+export async function analyzePosition(
+  position: Position,
+  player: Player,
+  {
+    timeLimitMs,
+    maxDepth = Infinity,
+    signal,
+    tt = new TranspositionTable(),
+    ordering = DEFAULT_MOVE_ORDERING,
+    endgameEmpties = DEFAULT_ENDGAME_EMPTIES,
+    evaluation = DEFAULT_EVALUATION,
+    scoring = 'standard',
+  }: SearchLimits
+): Promise<AnalysisResult> {
+  const start = performance.now();
+  const deadline = start + timeLimitMs;
+  const ctx = createSearchContext(player, {
+    deadline,
+    signal,
+    tt,
+    ordering: new MoveOrderer(ordering, position.size),
+    scoring,
+    evaluation,
+  });
+  const opponent = getOpponent(player);
+  const legal = bitsToSquares(getMovesMask(position, player));
+  const empties = popCount(emptySquares(position));
+  const depthLimit = Math.min(maxDepth, empties);
+
+  const result: AnalysisResult = {
+    player,
+    moves: legal.map(square => ({ move: indexToMove(square, position.size), score: 0, pv: [indexToMove(square, position.size)] })),
+    depth: 0,
+    nodes: 0,
+    elapsedMs: 0,
+    aborted: false,
+    solved: false,
+  };
+
+  if (legal.length > 0 && empties <= endgameEmpties) {
+    try {
+      let nodes = 0;
+      const moves = legal.map(square => {
+        const solved = solveEndgame(playMove(position, player, squareBit(square)), opponent, { scoring, deadline, signal });
+        nodes += solved.nodes;
+        return { move: indexToMove(square, position.size), score: -solved.score * FINAL_SCORE_SCALE, pv: [indexToMove(square, position.size), ...solved.pv] };
+      });
+      return { ...result, moves: moves.sort(byScore), depth: empties, nodes, elapsedMs: performance.now() - start, solved: true };
+    } catch (error) {
+      if (!(error instanceof SearchAbortedError)) {
+        throw error;
+      }
+    }
+  }
+
+  for (let depth = 1; depth <= depthLimit && legal.length > 0; depth++) {
+    await yieldToEventLoop();
+    if (signal?.aborted || performance.now() > deadline) {
+      break;
+    }
+
+    try {
+      // Search last iteration's best moves first so the table is warm for the rest.
+      const ordered = result.moves.map(line => squareIndex(line.move.row, line.move.col, position.size));
+      const moves = ordered.map(square => {
+        const child = playMove(position, player, squareBit(square));
+        const { score } = search(ctx, child, depth - 1, false, -Infinity, Infinity, 1);
+        return {
+          move: indexToMove(square, position.size),
+          score,
+          pv: [indexToMove(square, position.size), ...extractPrincipalVariation(ctx.tt, child, opponent, depth - 1)],
+        };
+      });
+      result.moves = moves.sort(byScore);
+      result.depth = depth;
+    } catch (error) {
+      if (!(error instanceof SearchAbortedError)) {
+        throw error;
+      }
+      break;
+    }
+  }
+
+  result.aborted = Boolean(signal?.aborted);
+  result.nodes = ctx.nodes;
+  result.elapsedMs = performance.now() - start;
+  return result;
+}
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Player } from '@/types/othello';
+import { getValidMoves, applyMove, getOpponent, getScore } from './othello';
+import {
+  BOARD_SIZES,
+  createInitialPosition,
+  getMovesMask,
+  playMove,
+  bitsToMoves,
+  moveToBit,
+  positionFromBoard,
+  positionToBoard,
+  getPositionScore,
+} from './bitboard';
+import { createRandom } from './random';
+
+// Plays random games on every board size and checks the bitboard move
+// generator and flips against the grid implementation at every ply.
+test('bitboard moves and flips match the board rules', () => {
+  const random = createRandom(42);
+  for (const size of BOARD_SIZES) {
+    for (let game = 0; game < 3; game++) {
+      let position = createInitialPosition(size);
+      let board = positionToBoard(position);
+      let player: Player = 'black';
+      let passes = 0;
+      while (passes < 2) {
+        const expected = getValidMoves(board, player);
+        const moves = bitsToMoves(getMovesMask(position, player), size);
+        assert.deepEqual(
+          [...moves].sort((a, b) => a.row - b.row || a.col - b.col),
+          [...expected].sort((a, b) => a.row - b.row || a.col - b.col)
+        );
+        if (moves.length === 0) {
+          passes++;
+        } else {
+          passes = 0;
+          const move = moves[Math.floor(random() * moves.length)];
+          position = playMove(position, player, moveToBit(move, size));
+          board = applyMove(board, player, move.row, move.col);
+          assert.deepEqual(positionToBoard(position), board);
+        }
+        player = getOpponent(player);
+      }
+      assert.deepEqual(getPositionScore(position), getScore(board));
+      assert.deepEqual(positionFromBoard(board), position);
+    }
+  }
+});
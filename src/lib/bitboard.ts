@@ -0,0 +1,231 @@
+import type { BoardState, Player, Move, Bitboard, Position } from '@/types/othello';
+
+// BigInt literals need an ES2020 target, so the constants are built with BigInt().
+// Square masks are kept for the largest board; every size numbers its squares
+// row by row from bit 0.
+export const BOARD_SIZES = [6, 8, 10, 12] as const;
+export type BoardSize = (typeof BOARD_SIZES)[number];
+export const DEFAULT_BOARD_SIZE: BoardSize = 8;
+
+export const MAX_BOARD_SIZE = Math.max(...BOARD_SIZES);
+const EMPTY: Bitboard = BigInt(0);
+const ONE: Bitboard = BigInt(1);
+
+const SQUARE_BITS: Bitboard[] = Array.from({ length: MAX_BOARD_SIZE * MAX_BOARD_SIZE }, (_, i) => ONE << BigInt(i));
+
+export const isBoardSize = (size: number): size is BoardSize => (BOARD_SIZES as readonly number[]).includes(size);
+
+export type DirectionName =
+  | 'east' | 'west' | 'south' | 'north'
+  | 'southEast' | 'southWest' | 'northEast' | 'northWest';
+
+// Each direction is a shift amount, whether it moves towards higher bit indices,
+// and the mask that drops discs which wrapped around a board edge.
+type Direction = { amount: bigint; up: boolean; mask: Bitboard };
+
+interface Geometry {
+  size: number;
+  squareCount: number;
+  full: Bitboard;
+  directionTable: Record<DirectionName, Direction>;
+  directions: Direction[];
+}
+
+function createGeometry(size: number): Geometry {
+  const squareCount = size * size;
+  const full = (ONE << BigInt(squareCount)) - ONE;
+  const fileMask = (col: number) => {
+    let mask = EMPTY;
+    for (let r = 0; r < size; r++) {
+      mask |= SQUARE_BITS[r * size + col];
+    }
+    return mask;
+  };
+  const notFirstFile = full & ~fileMask(0);
+  const notLastFile = full & ~fileMask(size - 1);
+  const directionTable: Record<DirectionName, Direction> = {
+    east: { amount: BigInt(1), up: true, mask: notFirstFile },
+    west: { amount: BigInt(1), up: false, mask: notLastFile },
+    south: { amount: BigInt(size), up: true, mask: full },
+    north: { amount: BigInt(size), up: false, mask: full },
+    southEast: { amount: BigInt(size + 1), up: true, mask: notFirstFile },
+    southWest: { amount: BigInt(size - 1), up: true, mask: notLastFile },
+    northEast: { amount: BigInt(size - 1), up: false, mask: notFirstFile },
+    northWest: { amount: BigInt(size + 1), up: false, mask: notLastFile },
+  };
+  return { size, squareCount, full, directionTable, directions: Object.values(directionTable) };
+}
+
+// Indexed by board size and built on first use.
+const GEOMETRIES: Geometry[] = [];
+
+function geometry(size: number): Geometry {
+  return (GEOMETRIES[size] ??= createGeometry(size));
+}
+
+// Every square of a board of this size.
+export const fullBoard = (size: number): Bitboard => geometry(size).full;
+
+function shift(bits: Bitboard, dir: Direction): Bitboard {
+  return (dir.up ? bits << dir.amount : bits >> dir.amount) & dir.mask;
+}
+
+// Moves every disc one square in the given direction, dropping those that leave the board.
+export const shiftToward = (bits: Bitboard, direction: DirectionName, size: number): Bitboard =>
+  shift(bits, geometry(size).directionTable[direction]);
+
+export const squareIndex = (row: number, col: number, size: number): number => row * size + col;
+
+export const indexToMove = (index: number, size: number): Move => ({
+  row: Math.floor(index / size),
+  col: index % size,
+});
+
+export const squareBit = (index: number): Bitboard => SQUARE_BITS[index];
+
+export const moveToBit = (move: Move, size: number): Bitboard => SQUARE_BITS[squareIndex(move.row, move.col, size)];
+
+export function popCount(bits: Bitboard): number {
+  let count = 0;
+  while (bits) {
+    bits &= bits - ONE;
+    count++;
+  }
+  return count;
+}
+
+export function bitsToSquares(bits: Bitboard): number[] {
+  const squares: number[] = [];
+  for (let i = 0; i < SQUARE_BITS.length && bits; i++) {
+    if (bits & SQUARE_BITS[i]) {
+      squares.push(i);
+      bits &= ~SQUARE_BITS[i];
+    }
+  }
+  return squares;
+}
+
+export const bitsToMoves = (bits: Bitboard, size: number): Move[] => bitsToSquares(bits).map(index => indexToMove(index, size));
+
+export function getPlayerBits(position: Pick<Position, 'black' | 'white'>, player: Player): { own: Bitboard; opponent: Bitboard } {
+  return player === 'black'
+    ? { own: position.black, opponent: position.white }
+    : { own: position.white, opponent: position.black };
+}
+
+// The four centre squares, with white on the main diagonal.
+export function createInitialPosition(size: number = DEFAULT_BOARD_SIZE): Position {
+  const low = size / 2 - 1;
+  const high = size / 2;
+  return {
+    black: SQUARE_BITS[squareIndex(low, high, size)] | SQUARE_BITS[squareIndex(high, low, size)],
+    white: SQUARE_BITS[squareIndex(low, low, size)] | SQUARE_BITS[squareIndex(high, high, size)],
+    size,
+  };
+}
+
+export function positionFromBoard(board: BoardState): Position {
+  const size = board.length;
+  let black = EMPTY;
+  let white = EMPTY;
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (board[r][c] === 'black') black |= SQUARE_BITS[squareIndex(r, c, size)];
+      if (board[r][c] === 'white') white |= SQUARE_BITS[squareIndex(r, c, size)];
+    }
+  }
+  return { black, white, size };
+}
+
+export function positionToBoard(position: Position): BoardState {
+  const { size } = position;
+  return Array.from({ length: size }, (_, r) =>
+    Array.from({ length: size }, (_, c) => {
+      const bit = SQUARE_BITS[squareIndex(r, c, size)];
+      if (position.black & bit) return 'black';
+      if (position.white & bit) return 'white';
+      return 'empty';
+    })
+  );
+}
+
+export const emptySquares = (position: Position): Bitboard =>
+  geometry(position.size).full & ~(position.black | position.white);
+
+// Every square adjacent to at least one square in `bits`.
+export function neighbours(bits: Bitboard, size: number): Bitboard {
+  let result = EMPTY;
+  for (const dir of geometry(size).directions) {
+    result |= shift(bits, dir);
+  }
+  return result & ~bits;
+}
+
+// Legal moves for the side owning `own`, as a mask of empty squares.
+export function generateMoves(own: Bitboard, opponent: Bitboard, size: number): Bitboard {
+  const { full, directions } = geometry(size);
+  const empty = full & ~(own | opponent);
+  let moves = EMPTY;
+
+  for (const dir of directions) {
+    // A run of opponent discs can be at most size - 2 long.
+    let run = shift(own, dir) & opponent;
+    for (let i = 0; i < size - 3; i++) {
+      run |= shift(run, dir) & opponent;
+    }
+    moves |= shift(run, dir) & empty;
+  }
+
+  return moves;
+}
+
+// Discs flipped when the side owning `own` plays `moveBit`; empty if the move is illegal.
+export function computeFlips(own: Bitboard, opponent: Bitboard, moveBit: Bitboard, size: number): Bitboard {
+  if ((own | opponent) & moveBit) {
+    return EMPTY;
+  }
+
+  let flips = EMPTY;
+  for (const dir of geometry(size).directions) {
+    let run = EMPTY;
+    let cursor = shift(moveBit, dir);
+    while (cursor & opponent) {
+      run |= cursor;
+      cursor = shift(cursor, dir);
+    }
+    if (cursor & own) {
+      flips |= run;
+    }
+  }
+  return flips;
+}
+
+export function getMovesMask(position: Position, player: Player): Bitboard {
+  const { own, opponent } = getPlayerBits(position, player);
+  return generateMoves(own, opponent, position.size);
+}
+
+export function getFlipsMask(position: Position, player: Player, moveBit: Bitboard): Bitboard {
+  const { own, opponent } = getPlayerBits(position, player);
+  return computeFlips(own, opponent, moveBit, position.size);
+}
+
+export function playMove(position: Position, player: Player, moveBit: Bitboard): Position {
+  const flips = getFlipsMask(position, player, moveBit);
+
+  if (!flips) {
+    // This is not a valid move, return the original position
+    return position;
+  }
+
+  const { own, opponent } = getPlayerBits(position, player);
+  const newOwn = own | moveBit | flips;
+  const newOpponent = opponent & ~flips;
+  return player === 'black'
+    ? { black: newOwn, white: newOpponent, size: position.size }
+    : { black: newOpponent, white: newOwn, size: position.size };
+}
+
+export function getPositionScore(position: Position): { black: number; white: number } {
+  return { black: popCount(position.black), white: popCount(position.white) };
+}
@@ -0,0 +1,24 @@
+import { loadOpeningBook, type OpeningBook } from './opening-book';
+
+// A small book of the main named openings, written from f5. Symmetry covers
+// the other three first moves. Weights are how often the AI heads into a line.
+export const DEFAULT_OPENING_BOOK_TEXT = `
+# Black's first move has only one answer up to symmetry; the three replies name the openings.
+f5d6 10 Perpendicular Opening
+f5f6 10 Diagonal Opening
+f5f4 2 Parallel Opening
+
+f5d6c3d3c4 30 Tiger
+f5d6c3d3c4f4c5b3c2 10 Buffalo
+f5d6c5f4e3 20 Cow
+f5d6c5f4e3c6d3f6e6d7 10 Rose
+f5f6e6f4e3 20 Rabbit
+`;
+
+let defaultBook: OpeningBook | null = null;
+
+// Built on first use and shared afterwards.
+export function getDefaultOpeningBook(): OpeningBook {
+  defaultBook ??= loadOpeningBook(DEFAULT_OPENING_BOOK_TEXT);
+  return defaultBook;
+}
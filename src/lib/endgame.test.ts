@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Player, Position, Scoring } from '@/types/othello';
+import { getOpponent, scoreMargin } from './othello';
+import { getMovesMask, playMove, bitsToSquares, squareBit, getPositionScore, emptySquares, popCount } from './bitboard';
+import { randomOpening } from './match';
+import { createRandom } from './random';
+import { solveEndgame } from './endgame';
+
+// Plain negamax over every line, the reference the solver must agree with.
+function bruteForce(position: Position, player: Player, scoring: Scoring, passed = false): number {
+  const moves = bitsToSquares(getMovesMask(position, player));
+  if (moves.length === 0) {
+    if (passed) {
+      const margin = scoreMargin(getPositionScore(position), player);
+      return scoring === 'misere' ? -margin : margin;
+    }
+    return -bruteForce(position, getOpponent(player), scoring, true);
+  }
+  return Math.max(...moves.map(square => -bruteForce(playMove(position, player, squareBit(square)), getOpponent(player), scoring)));
+}
+
+function latePositions(size: number, empties: number, count: number) {
+  const random = createRandom(size * 100 + empties);
+  const positions: { position: Position; player: Player }[] = [];
+  while (positions.length < count) {
+    const opening = randomOpening(random, size * size - 4 - empties, size);
+    if (popCount(emptySquares(opening.position)) === empties && getMovesMask(opening.position, opening.sideToMove)) {
+      positions.push({ position: opening.position, player: opening.sideToMove });
+    }
+  }
+  return positions;
+}
+
+test('the exact solver finds the perfect-play margin', () => {
+  for (const scoring of ['standard', 'misere'] as const) {
+    for (const { position, player } of [...latePositions(8, 8, 4), ...latePositions(6, 9, 2)]) {
+      const expected = bruteForce(position, player, scoring);
+      const result = solveEndgame(position, player, { scoring });
+      // A drawn line may come back as -0 from either side.
+      assert.ok(result.score === expected, `${result.score} !== ${expected}`);
+      assert.equal(result.outcome, expected > 0 ? 'win' : expected < 0 ? 'loss' : 'draw');
+      assert.ok(result.move && getMovesMask(position, player) & squareBit(result.move.row * position.size + result.move.col));
+    }
+  }
+});
+
+test('the win-loss-draw solver proves the same outcome', () => {
+  for (const { position, player } of latePositions(8, 9, 4)) {
+    const expected = Math.sign(bruteForce(position, player, 'standard'));
+    const { score } = solveEndgame(position, player, { mode: 'wld' });
+    assert.ok(Math.sign(score) === expected, `${score} does not have the sign of ${expected}`);
+  }
+});
@@ -0,0 +1,208 @@
+import type { Player, Move, Position, Bitboard, Scoring } from '@/types/othello';
+import {
+  generateMoves,
+  computeFlips,
+  getPlayerBits,
+  bitsToSquares,
+  squareBit,
+  squareIndex,
+  indexToMove,
+  popCount,
+  fullBoard,
+} from './bitboard';
+import { SearchAbortedError } from './minimax';
+import type { TranscriptEntry } from './notation';
+
+// Positions with this many empty squares or fewer are solved exactly by default.
+export const DEFAULT_ENDGAME_EMPTIES = 10;
+
+// Below this many empties, counting the opponent's replies for fastest-first
+// ordering costs more than it saves.
+const FASTEST_FIRST_MIN_EMPTIES = 7;
+const STOP_CHECK_INTERVAL = 4096;
+const PASS = -1;
+
+// 'wld' only proves the game-theoretic outcome, which is much faster than
+// finding the exact final margin.
+export type SolveMode = 'exact' | 'wld';
+
+export interface SolveOptions {
+  mode?: SolveMode;
+  scoring?: Scoring;
+  deadline?: number;
+  signal?: AbortSignal;
+}
+
+export interface EndgameResult {
+  move: Move | null;
+  // Final disc margin for the player to move under perfect play, negated under
+  // misère scoring so that higher is always better. In 'wld' mode only its sign
+  // is meaningful.
+  score: number;
+  outcome: 'win' | 'loss' | 'draw';
+  // The perfect-play line starting with `move`. In 'wld' mode it is only
+  // guaranteed to reach the proven outcome, not the best margin.
+  pv: TranscriptEntry[];
+  nodes: number;
+}
+
+interface SolverContext {
+  size: number;
+  full: Bitboard;
+  quadrants: Bitboard[];
+  // -1 under misère scoring, where every final margin counts against its owner.
+  sign: number;
+  nodes: number;
+  deadline: number;
+  signal?: AbortSignal;
+  // Principal variation found below each ply, as square indices or PASS.
+  pv: number[][];
+}
+
+// Indexed by board size and built on first use.
+const QUADRANTS: Bitboard[][] = [];
+
+function createQuadrants(size: number): Bitboard[] {
+  const half = size / 2;
+  const mask = (rowStart: number, colStart: number) => {
+    let bits = BigInt(0);
+    for (let r = rowStart; r < rowStart + half; r++) {
+      for (let c = colStart; c < colStart + half; c++) {
+        bits |= squareBit(squareIndex(r, c, size));
+      }
+    }
+    return bits;
+  };
+  return [mask(0, 0), mask(0, half), mask(half, 0), mask(half, half)];
+}
+
+// Parity: moving into a region with an odd number of empties tends to leave
+// us the last move there. Fastest-first: prefer moves that leave the
+// opponent the fewest replies, which narrows the tree quickly.
+function orderMoves(ctx: SolverContext, own: Bitboard, opponent: Bitboard, moves: Bitboard, empty: Bitboard): number[] {
+  const squares = bitsToSquares(moves);
+  if (squares.length < 2) {
+    return squares;
+  }
+
+  const oddRegions = ctx.quadrants.reduce((mask, quadrant) => (popCount(empty & quadrant) % 2 ? mask | quadrant : mask), BigInt(0));
+  const useMobility = popCount(empty) >= FASTEST_FIRST_MIN_EMPTIES;
+  const keys = new Map<number, number>();
+
+  for (const square of squares) {
+    const bit = squareBit(square);
+    let key = oddRegions & bit ? 100 : 0;
+    if (useMobility) {
+      const flips = computeFlips(own, opponent, bit, ctx.size);
+      key -= 10 * popCount(generateMoves(opponent & ~flips, own | bit | flips, ctx.size));
+    }
+    keys.set(square, key);
+  }
+
+  return squares.sort((a, b) => keys.get(b)! - keys.get(a)!);
+}
+
+// Negamax from the point of view of the side owning `own`.
+function solve(
+  ctx: SolverContext,
+  own: Bitboard,
+  opponent: Bitboard,
+  alpha: number,
+  beta: number,
+  passed: boolean,
+  ply: number
+): number {
+  ctx.nodes++;
+  if (ctx.nodes % STOP_CHECK_INTERVAL === 0 && (performance.now() > ctx.deadline || ctx.signal?.aborted)) {
+    throw new SearchAbortedError();
+  }
+
+  ctx.pv[ply] = [];
+  const moves = generateMoves(own, opponent, ctx.size);
+  if (!moves) {
+    // Checking the opponent here rather than after passing keeps a
+    // trailing pass out of the principal variation.
+    if (passed || !generateMoves(opponent, own, ctx.size)) {
+      return ctx.sign * (popCount(own) - popCount(opponent));
+    }
+    const score = -solve(ctx, opponent, own, -beta, -alpha, true, ply + 1);
+    ctx.pv[ply] = [PASS, ...ctx.pv[ply + 1]];
+    return score;
+  }
+
+  const empty = ctx.full & ~(own | opponent);
+  let best = -Infinity;
+  for (const square of orderMoves(ctx, own, opponent, moves, empty)) {
+    const bit = squareBit(square);
+    const flips = computeFlips(own, opponent, bit, ctx.size);
+    const score = -solve(ctx, opponent & ~flips, own | bit | flips, -beta, -alpha, false, ply + 1);
+    if (score > best) {
+      best = score;
+      if (score > alpha) {
+        alpha = score;
+        ctx.pv[ply] = [square, ...ctx.pv[ply + 1]];
+      }
+      if (alpha >= beta) break;
+    }
+  }
+  return best;
+}
+
+const toTranscript = (line: number[], size: number): TranscriptEntry[] =>
+  line.map(square => (square === PASS ? 'pass' : indexToMove(square, size)));
+
+// Solves the position for `player` under perfect play by both sides. Throws
+// SearchAbortedError if the deadline passes or the signal fires first.
+export function solveEndgame(
+  position: Position,
+  player: Player,
+  { mode = 'exact', scoring = 'standard', deadline = Infinity, signal }: SolveOptions = {}
+): EndgameResult {
+  const { size } = position;
+  const ctx: SolverContext = {
+    size,
+    full: fullBoard(size),
+    quadrants: (QUADRANTS[size] ??= createQuadrants(size)),
+    sign: scoring === 'misere' ? -1 : 1,
+    nodes: 0,
+    deadline,
+    signal,
+    pv: [],
+  };
+  const { own, opponent } = getPlayerBits(position, player);
+  // The largest possible disc difference.
+  const window = mode === 'wld' ? 1 : size * size;
+  const moves = generateMoves(own, opponent, size);
+
+  let bestMove: number | null = null;
+  let bestScore: number;
+  let pv: number[] = [];
+
+  if (!moves) {
+    bestScore = solve(ctx, own, opponent, -window, window, false, 0);
+    pv = ctx.pv[0];
+  } else {
+    let alpha = -window;
+    bestScore = -Infinity;
+    for (const square of orderMoves(ctx, own, opponent, moves, ctx.full & ~(own | opponent))) {
+      const bit = squareBit(square);
+      const flips = computeFlips(own, opponent, bit, size);
+      const score = -solve(ctx, opponent & ~flips, own | bit | flips, -window, -alpha, false, 1);
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = square;
+        pv = [square, ...ctx.pv[1]];
+        if (score > alpha) alpha = score;
+        if (alpha >= window) break;
+      }
+    }
+  }
+
+  return {
+    move: bestMove === null ? null : indexToMove(bestMove, size),
+    score: bestScore,
+    outcome: bestScore > 0 ? 'win' : bestScore < 0 ? 'loss' : 'draw',
+    pv: toTranscript(pv, size),
+    nodes: ctx.nodes,
+  };
+}
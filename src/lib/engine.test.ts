@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInitialPosition, getMovesMask, squareBit, squareIndex } from './bitboard';
+import { createEngine, ENGINE_REGISTRY, type EngineId, type EngineSpec } from './engine';
+
+test('every engine in the registry plays a legal move', async () => {
+  const position = createInitialPosition(8);
+  for (const id of Object.keys(ENGINE_REGISTRY) as EngineId[]) {
+    const spec = { id, options: id === 'mcts' ? { iterations: 50, seed: 1 } : { seed: 1 } } as EngineSpec;
+    const { move, pv, stats } = await createEngine(spec).chooseMove(position, 'black', { timeLimitMs: 100 });
+    assert.ok(move, id);
+    assert.ok(getMovesMask(position, 'black') & squareBit(squareIndex(move.row, move.col, 8)), id);
+    assert.deepEqual(pv[0], move, id);
+    assert.equal(stats.aborted, false, id);
+  }
+});
+
+test('an engine with a book plays from it in standard games only', async () => {
+  const engine = createEngine({ id: 'random', options: { seed: 1 }, book: { seed: 1 } });
+  const position = createInitialPosition(8);
+  const book = await engine.chooseMove(position, 'black', { timeLimitMs: 100 });
+  assert.equal(book.stats.book, true);
+  const misere = await engine.chooseMove(position, 'black', { timeLimitMs: 100, scoring: 'misere' });
+  assert.equal(misere.stats.book, undefined);
+  const small = await engine.chooseMove(createInitialPosition(6), 'black', { timeLimitMs: 100 });
+  assert.equal(small.stats.book, undefined);
+});
+
+test('a player without a move gets a null move', async () => {
+  const position = { ...createInitialPosition(8), white: BigInt(0) };
+  for (const id of Object.keys(ENGINE_REGISTRY) as EngineId[]) {
+    const { move } = await createEngine({ id }).chooseMove(position, 'white', { timeLimitMs: 50 });
+    assert.equal(move, null, id);
+  }
+});
@@ -0,0 +1,223 @@
+import type { Player, Move, Position, Scoring } from '@/types/othello';
+import { getMovesMask, getFlipsMask, bitsToSquares, squareBit, indexToMove, popCount } from './bitboard';
+import { iterativeDeepening, type SearchLimits } from './search';
+import { mctsSearch, type MctsLimits } from './mcts';
+import { createRandom } from './random';
+import type { TranscriptEntry } from './notation';
+import { chooseBookMove } from './opening-book';
+import { getDefaultOpeningBook } from './default-opening-book';
+
+// A common interface over every AI, so the UI and self-play tools can pick an
+// opponent by id instead of calling a search function directly.
+
+export interface EngineLimits {
+  // Wall-clock budget for the move, in milliseconds.
+  timeLimitMs: number;
+  // The rule the game is scored by; standard when omitted.
+  scoring?: Scoring;
+  signal?: AbortSignal;
+  onProgress?: (report: EngineProgress) => void;
+}
+
+export interface EngineStats {
+  // Positions searched; for MCTS, the number of playouts.
+  nodes: number;
+  // Depth of the last completed search iteration, for engines that search by depth.
+  depth?: number;
+  elapsedMs: number;
+  aborted: boolean;
+  // True when the score is the exact final disc margin.
+  solved: boolean;
+  // True when the move was taken from the opening book without searching.
+  book?: boolean;
+}
+
+export interface EngineMove {
+  // Null when the player has to pass.
+  move: Move | null;
+  // From the moving player's point of view, in the engine's own units: search
+  // scores for minimax, win rate for MCTS, flips for greedy, 0 for random.
+  score: number;
+  // The expected continuation, starting with `move`.
+  pv: TranscriptEntry[];
+  stats: EngineStats;
+}
+
+export type EngineProgress = Pick<EngineMove, 'move' | 'score'> & Pick<EngineStats, 'nodes' | 'depth' | 'elapsedMs'>;
+
+export interface Engine {
+  chooseMove(position: Position, player: Player, limits: EngineLimits): Promise<EngineMove>;
+}
+
+export interface RandomEngineOptions {
+  seed?: number;
+}
+
+// Under misère scoring the greedy engine flips as few discs as it can.
+export interface GreedyEngineOptions {
+  // Breaks ties between moves flipping equally many discs.
+  seed?: number;
+}
+
+export type MinimaxEngineOptions = Omit<SearchLimits, 'timeLimitMs' | 'signal' | 'tt'>;
+
+export type MctsEngineOptions = Omit<MctsLimits, 'timeLimitMs' | 'signal'>;
+
+// Options accepted by each engine. Options are plain data so that an engine can
+// be described in a worker message or a tournament file.
+export interface EngineOptionsMap {
+  random: RandomEngineOptions;
+  greedy: GreedyEngineOptions;
+  minimax: MinimaxEngineOptions;
+  mcts: MctsEngineOptions;
+}
+
+export type EngineId = keyof EngineOptionsMap;
+
+export interface OpeningBookOptions {
+  // Seeds the weighted choice between book moves; unseeded choices differ every game.
+  seed?: number;
+}
+
+// An engine id together with its options. With `book`, any engine plays from
+// the default opening book while the position is in it, in standard games.
+export type EngineSpec = { [Id in EngineId]: { id: Id; options?: EngineOptionsMap[Id] } }[EngineId] & {
+  book?: OpeningBookOptions;
+};
+
+export interface EngineDescriptor<Options> {
+  name: string;
+  description: string;
+  create(options?: Options): Engine;
+}
+
+const idleStats = (start: number): EngineStats => ({
+  nodes: 0,
+  elapsedMs: performance.now() - start,
+  aborted: false,
+  solved: false,
+});
+
+function createRandomEngine({ seed }: RandomEngineOptions = {}): Engine {
+  const random = createRandom(seed);
+  return {
+    async chooseMove(position, player) {
+      const start = performance.now();
+      const moves = bitsToSquares(getMovesMask(position, player));
+      const move = moves.length > 0 ? indexToMove(moves[Math.floor(random() * moves.length)], position.size) : null;
+      return { move, score: 0, pv: move ? [move] : [], stats: idleStats(start) };
+    },
+  };
+}
+
+function createGreedyEngine({ seed }: GreedyEngineOptions = {}): Engine {
+  const random = createRandom(seed);
+  return {
+    async chooseMove(position, player, { scoring }) {
+      const start = performance.now();
+      const sign = scoring === 'misere' ? -1 : 1;
+      let best: number[] = [];
+      let bestFlips = -Infinity;
+      for (const square of bitsToSquares(getMovesMask(position, player))) {
+        const flips = sign * popCount(getFlipsMask(position, player, squareBit(square)));
+        if (flips > bestFlips) {
+          bestFlips = flips;
+          best = [square];
+        } else if (flips === bestFlips) {
+          best.push(square);
+        }
+      }
+      const move = best.length > 0 ? indexToMove(best[Math.floor(random() * best.length)], position.size) : null;
+      return { move, score: move ? sign * bestFlips : 0, pv: move ? [move] : [], stats: idleStats(start) };
+    },
+  };
+}
+
+function createMinimaxEngine(options: MinimaxEngineOptions = {}): Engine {
+  return {
+    async chooseMove(position, player, { timeLimitMs, scoring, signal, onProgress }) {
+      const result = await iterativeDeepening(position, player, { ...options, timeLimitMs, scoring, signal }, onProgress);
+      return {
+        move: result.move,
+        score: result.score,
+        pv: result.pv,
+        stats: {
+          nodes: result.nodes,
+          depth: result.depth,
+          elapsedMs: result.elapsedMs,
+          aborted: result.aborted,
+          solved: result.solved,
+        },
+      };
+    },
+  };
+}
+
+function createMctsEngine(options: MctsEngineOptions = {}): Engine {
+  return {
+    async chooseMove(position, player, { timeLimitMs, scoring, signal, onProgress }) {
+      const result = await mctsSearch(
+        position,
+        player,
+        { ...options, timeLimitMs, scoring, signal },
+        report => onProgress?.({ move: report.move, score: report.winRate, nodes: report.iterations, elapsedMs: report.elapsedMs })
+      );
+      return {
+        move: result.move,
+        score: result.winRate,
+        pv: result.move ? [result.move] : [],
+        stats: {
+          nodes: result.iterations,
+          elapsedMs: result.elapsedMs,
+          aborted: result.aborted,
+          solved: false,
+        },
+      };
+    },
+  };
+}
+
+function withOpeningBook(engine: Engine, { seed }: OpeningBookOptions): Engine {
+  const random = createRandom(seed);
+  return {
+    async chooseMove(position, player, limits) {
+      const start = performance.now();
+      // The book's lines are played for the most discs.
+      const move = limits.scoring === 'misere' ? null : chooseBookMove(getDefaultOpeningBook(), position, player, random);
+      if (!move) {
+        return engine.chooseMove(position, player, limits);
+      }
+      return { move, score: 0, pv: [move], stats: { ...idleStats(start), book: true } };
+    },
+  };
+}
+
+export const ENGINE_REGISTRY: { [Id in EngineId]: EngineDescriptor<EngineOptionsMap[Id]> } = {
+  random: {
+    name: 'Random',
+    description: 'Plays a uniformly random legal move.',
+    create: createRandomEngine,
+  },
+  greedy: {
+    name: 'Greedy',
+    description: 'Plays the move that flips the most discs right now, or the fewest in Anti-Othello.',
+    create: createGreedyEngine,
+  },
+  minimax: {
+    name: 'Minimax',
+    description: 'Alpha-beta search with iterative deepening and an exact endgame solver.',
+    create: createMinimaxEngine,
+  },
+  mcts: {
+    name: 'Monte Carlo Tree Search',
+    description: 'Plays random games to the end and favours the moves that win most often.',
+    create: createMctsEngine,
+  },
+};
+
+export function createEngine(spec: EngineSpec): Engine {
+  // The registry is keyed by id, so the descriptor always matches the options.
+  const descriptor = ENGINE_REGISTRY[spec.id] as EngineDescriptor<EngineOptionsMap[EngineId]>;
+  const engine = descriptor.create(spec.options);
+  return spec.book ? withOpeningBook(engine, spec.book) : engine;
+}
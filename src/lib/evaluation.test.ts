@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Position } from '@/types/othello';
+import { getOpponent } from './othello';
+import { randomOpening } from './match';
+import { createRandom } from './random';
+import { evaluate, extractFeatures, misereEvaluation, EVALUATION_PRESETS, ZERO_WEIGHTS } from './evaluation';
+
+const swapColors = ({ black, white, size }: Position): Position => ({ black: white, white: black, size });
+
+function positions() {
+  const random = createRandom(17);
+  return [6, 8, 10].flatMap(size => [10, 30, size * size - 12].map(plies => randomOpening(random, plies, size)));
+}
+
+test('every preset scores the two colors as mirror images', () => {
+  for (const [id, config] of Object.entries(EVALUATION_PRESETS)) {
+    for (const { position, sideToMove } of positions()) {
+      const score = evaluate(position, 'black', sideToMove, config);
+      // One side's gain is the other's loss...
+      assert.equal(evaluate(position, 'white', sideToMove, config) + score, 0, id);
+      // ...and swapping every disc swaps the scores.
+      assert.equal(evaluate(swapColors(position), 'white', getOpponent(sideToMove), config), score, id);
+    }
+  }
+});
+
+test('misère evaluation negates the disc features only', () => {
+  const { position, sideToMove } = randomOpening(createRandom(4), 20);
+  const weights = { ...ZERO_WEIGHTS, discs: 1, mobility: 1 };
+  const standard = { name: 'test', weights: { opening: weights, midgame: weights, endgame: weights } };
+  const { discs, mobility } = extractFeatures(position, 'black', sideToMove);
+  assert.equal(evaluate(position, 'black', sideToMove, standard), discs + mobility);
+  assert.equal(evaluate(position, 'black', sideToMove, misereEvaluation(standard)), mobility - discs);
+});
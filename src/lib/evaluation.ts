@@ -0,0 +1,291 @@
+import type { Player, Position, Bitboard } from '@/types/othello';
+import { getStableDiscs } from './stability';
+import {
+  generateMoves,
+  getPlayerBits,
+  neighbours,
+  bitsToSquares,
+  squareBit,
+  squareIndex,
+  popCount,
+  fullBoard,
+} from './bitboard';
+
+// Every feature is measured as (player's value - opponent's value) and
+// multiplied by its weight.
+export interface FeatureWeights {
+  // Disc difference.
+  discs: number;
+  // Number of legal moves.
+  mobility: number;
+  // Empty squares next to the opponent's discs (their frontier is our future mobility).
+  potentialMobility: number;
+  // Discs that can never be flipped again.
+  stability: number;
+  corners: number;
+  // Diagonal neighbours of an empty corner; usually negative.
+  xSquares: number;
+  // Edge neighbours of an empty corner; usually negative.
+  cSquares: number;
+  // Discs on edge squares at least two away from a corner, which are hard to attack.
+  edges: number;
+  // Scales the static square-value table.
+  squareTable: number;
+  // +1 when the side to move will get the last move in the game, -1 otherwise.
+  parity: number;
+}
+
+export type GamePhase = 'opening' | 'midgame' | 'endgame';
+
+export interface EvaluationConfig {
+  name: string;
+  weights: Record<GamePhase, FeatureWeights>;
+}
+
+// Phases are decided by the number of discs on the board, given here for the
+// 8x8 board and scaled to the number of squares on other sizes.
+const OPENING_MAX_DISCS = 20;
+const MIDGAME_MAX_DISCS = 44;
+const STANDARD_SQUARE_COUNT = 64;
+
+// Static square values by distance from the nearest two edges (closer first).
+// On the 8x8 board this is the usual table:
+//   100 -20  10   5   5  10 -20 100
+//   -20 -50  -2  -2  -2  -2 -50 -20
+//    10  -2   1   1   1   1  -2  10
+//     5  -2   1   0   0   1  -2   5
+// and mirrored below.
+function squareValue(near: number, far: number): number {
+  if (near === 0) return far === 0 ? 100 : far === 1 ? -20 : far === 2 ? 10 : 5;
+  if (near === 1) return far === 1 ? -50 : -2;
+  return near === 2 ? 1 : 0;
+}
+
+interface BoardRegions {
+  squareTable: number[];
+  // Each corner with its X-square and its two C-squares.
+  cornerRegions: { corner: Bitboard; x: Bitboard; c: Bitboard }[];
+  corners: Bitboard;
+  edgeMiddles: Bitboard;
+}
+
+function createBoardRegions(size: number): BoardRegions {
+  const last = size - 1;
+  const maskOf = (squares: [number, number][]): Bitboard =>
+    squares.reduce((mask, [r, c]) => mask | squareBit(squareIndex(r, c, size)), BigInt(0));
+  const distance = (i: number) => Math.min(i, last - i);
+
+  const squareTable: number[] = [];
+  const edgeSquares: [number, number][] = [];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      const [near, far] = [distance(r), distance(c)].sort((a, b) => a - b);
+      squareTable.push(squareValue(near, far));
+      if (near === 0 && far >= 2) edgeSquares.push([r, c]);
+    }
+  }
+
+  // Corners as [row, col] with the direction towards the board's centre.
+  const cornerRegions = [
+    [0, 0, 1, 1],
+    [0, last, 1, -1],
+    [last, 0, -1, 1],
+    [last, last, -1, -1],
+  ].map(([r, c, dr, dc]) => ({
+    corner: maskOf([[r, c]]),
+    x: maskOf([[r + dr, c + dc]]),
+    c: maskOf([[r, c + dc], [r + dr, c]]),
+  }));
+
+  return {
+    squareTable,
+    cornerRegions,
+    corners: cornerRegions.reduce((mask, region) => mask | region.corner, BigInt(0)),
+    edgeMiddles: maskOf(edgeSquares),
+  };
+}
+
+// Indexed by board size and built on first use.
+const BOARD_REGIONS: BoardRegions[] = [];
+
+function boardRegions(size: number): BoardRegions {
+  return (BOARD_REGIONS[size] ??= createBoardRegions(size));
+}
+
+// Static value of every square on a board of this size, indexed by square.
+export const getSquareTable = (size: number): number[] => boardRegions(size).squareTable;
+
+function squareTableScore(discs: Bitboard, table: number[]): number {
+  return bitsToSquares(discs).reduce((sum, square) => sum + table[square], 0);
+}
+
+export function getGamePhase(position: Position): GamePhase {
+  const discs = (popCount(position.black | position.white) * STANDARD_SQUARE_COUNT) / (position.size * position.size);
+  if (discs <= OPENING_MAX_DISCS) return 'opening';
+  if (discs <= MIDGAME_MAX_DISCS) return 'midgame';
+  return 'endgame';
+}
+
+export const ZERO_WEIGHTS: FeatureWeights = {
+  discs: 0,
+  mobility: 0,
+  potentialMobility: 0,
+  stability: 0,
+  corners: 0,
+  xSquares: 0,
+  cSquares: 0,
+  edges: 0,
+  squareTable: 0,
+  parity: 0,
+};
+
+const samePhases = (weights: Partial<FeatureWeights>): Record<GamePhase, FeatureWeights> => ({
+  opening: { ...ZERO_WEIGHTS, ...weights },
+  midgame: { ...ZERO_WEIGHTS, ...weights },
+  endgame: { ...ZERO_WEIGHTS, ...weights },
+});
+
+// The original evaluation: disc difference plus a flat corner bonus.
+export const CLASSIC_EVALUATION: EvaluationConfig = {
+  name: 'Classic',
+  weights: samePhases({ discs: 1, corners: 25 }),
+};
+
+// Grabs as many discs as it can, with only a passing interest in corners.
+export const GREEDY_EVALUATION: EvaluationConfig = {
+  name: 'Greedy',
+  weights: samePhases({ discs: 5, corners: 10 }),
+};
+
+export const BALANCED_EVALUATION: EvaluationConfig = {
+  name: 'Balanced',
+  weights: {
+    opening: {
+      discs: 0, mobility: 10, potentialMobility: 5, stability: 10, corners: 80,
+      xSquares: -40, cSquares: -15, edges: 2, squareTable: 1, parity: 0,
+    },
+    midgame: {
+      discs: 1, mobility: 8, potentialMobility: 4, stability: 15, corners: 80,
+      xSquares: -30, cSquares: -10, edges: 3, squareTable: 1, parity: 5,
+    },
+    endgame: {
+      discs: 10, mobility: 4, potentialMobility: 1, stability: 20, corners: 40,
+      xSquares: -5, cSquares: -2, edges: 2, squareTable: 0, parity: 20,
+    },
+  },
+};
+
+// Plays for quiet moves and few discs early, in the style of strong human players.
+export const POSITIONAL_EVALUATION: EvaluationConfig = {
+  name: 'Positional',
+  weights: {
+    opening: {
+      discs: -2, mobility: 15, potentialMobility: 8, stability: 10, corners: 100,
+      xSquares: -60, cSquares: -25, edges: 1, squareTable: 1, parity: 0,
+    },
+    midgame: {
+      discs: -1, mobility: 12, potentialMobility: 6, stability: 20, corners: 100,
+      xSquares: -40, cSquares: -15, edges: 2, squareTable: 1, parity: 5,
+    },
+    endgame: {
+      discs: 8, mobility: 5, potentialMobility: 2, stability: 25, corners: 50,
+      xSquares: -10, cSquares: -5, edges: 2, squareTable: 0, parity: 25,
+    },
+  },
+};
+
+export const EVALUATION_PRESETS = {
+  classic: CLASSIC_EVALUATION,
+  greedy: GREEDY_EVALUATION,
+  balanced: BALANCED_EVALUATION,
+  positional: POSITIONAL_EVALUATION,
+} satisfies Record<string, EvaluationConfig>;
+
+export type EvaluationPresetId = keyof typeof EVALUATION_PRESETS;
+
+export const DEFAULT_EVALUATION = BALANCED_EVALUATION;
+
+export type FeatureName = keyof FeatureWeights;
+
+export const FEATURE_NAMES = Object.keys(ZERO_WEIGHTS) as FeatureName[];
+
+// Features that count the player's own discs, which are a liability when the
+// fewest discs win. Mobility and parity are worth the same under either scoring.
+const DISC_FEATURES: FeatureName[] = ['discs', 'stability', 'corners', 'xSquares', 'cSquares', 'edges', 'squareTable'];
+
+// The same evaluation for misère scoring, with the disc features negated.
+export function misereEvaluation(config: EvaluationConfig): EvaluationConfig {
+  const invert = (weights: FeatureWeights): FeatureWeights => {
+    const inverted = { ...weights };
+    for (const name of DISC_FEATURES) {
+      inverted[name] = -weights[name];
+    }
+    return inverted;
+  };
+  return {
+    name: `${config.name} (misère)`,
+    weights: {
+      opening: invert(config.weights.opening),
+      midgame: invert(config.weights.midgame),
+      endgame: invert(config.weights.endgame),
+    },
+  };
+}
+
+// Measures every feature for `player`, in the units its weight applies to.
+// Features with a zero weight in `only` are skipped and reported as 0.
+export function extractFeatures(
+  position: Position,
+  player: Player,
+  sideToMove: Player,
+  only?: FeatureWeights
+): FeatureWeights {
+  const wanted = (name: FeatureName) => !only || only[name] !== 0;
+  const { size } = position;
+  const { own, opponent } = getPlayerBits(position, player);
+  const empty = fullBoard(size) & ~(own | opponent);
+  const regions = boardRegions(size);
+  const features = { ...ZERO_WEIGHTS };
+
+  if (wanted('discs')) features.discs = popCount(own) - popCount(opponent);
+  if (wanted('mobility')) features.mobility = popCount(generateMoves(own, opponent, size)) - popCount(generateMoves(opponent, own, size));
+  if (wanted('potentialMobility')) {
+    features.potentialMobility = popCount(neighbours(opponent, size) & empty) - popCount(neighbours(own, size) & empty);
+  }
+  if (wanted('stability')) {
+    const stable = getPlayerBits(getStableDiscs(position), player);
+    features.stability = popCount(stable.own) - popCount(stable.opponent);
+  }
+  if (wanted('corners')) features.corners = popCount(own & regions.corners) - popCount(opponent & regions.corners);
+  if (wanted('xSquares') || wanted('cSquares')) {
+    for (const region of regions.cornerRegions) {
+      if (!(empty & region.corner)) continue;
+      features.xSquares += popCount(own & region.x) - popCount(opponent & region.x);
+      features.cSquares += popCount(own & region.c) - popCount(opponent & region.c);
+    }
+  }
+  if (wanted('edges')) features.edges = popCount(own & regions.edgeMiddles) - popCount(opponent & regions.edgeMiddles);
+  if (wanted('squareTable')) features.squareTable = squareTableScore(own, regions.squareTable) - squareTableScore(opponent, regions.squareTable);
+  if (wanted('parity')) {
+    const moverGetsLastMove = popCount(empty) % 2 === 1;
+    features.parity = moverGetsLastMove === (sideToMove === player) ? 1 : -1;
+  }
+
+  return features;
+}
+
+// Scores the position for `player`; `sideToMove` is only needed for parity.
+export function evaluate(
+  position: Position,
+  player: Player,
+  sideToMove: Player,
+  config: EvaluationConfig = DEFAULT_EVALUATION
+): number {
+  const weights = config.weights[getGamePhase(position)];
+  const features = extractFeatures(position, player, sideToMove, weights);
+  let score = 0;
+  for (const name of FEATURE_NAMES) {
+    score += weights[name] * features[name];
+  }
+  return score;
+}
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Player } from '@/types/othello';
+import { filterGameRecords, mergeGameRecords, gameRecordSeries, localDay, type GameRecord } from './game-records';
+
+// Noon local time, so the calendar day is the same in every time zone.
+const noon = (day: number) => new Date(2024, 4, day, 12).toISOString();
+
+function record(id: string, day: number, level: string, aiColor: Player, winner: Player | 'draw' = aiColor): GameRecord {
+  return { id, playedAt: noon(day), source: 'human', level, aiColor, winner, score: { black: 33, white: 31 } };
+}
+
+const RECORDS = [
+  record('a', 1, 'easy', 'white'),
+  record('b', 2, 'hard', 'black', 'white'),
+  record('c', 3, 'hard', 'white', 'draw'),
+  record('d', 4, 'easy', 'black'),
+];
+
+test('merging replaces records with the same id and keeps the newest', () => {
+  const replayed = { ...RECORDS[1], playedAt: noon(5), winner: 'black' as const };
+  const merged = mergeGameRecords(RECORDS, [replayed], 10);
+  assert.deepEqual(merged.map(({ id }) => id), ['a', 'c', 'd', 'b']);
+  assert.equal(merged.at(-1)?.winner, 'black');
+
+  assert.deepEqual(mergeGameRecords(RECORDS, [replayed], 2).map(({ id }) => id), ['d', 'b']);
+  assert.deepEqual(mergeGameRecords([], RECORDS, 10), RECORDS);
+});
+
+test('records are filtered by difficulty, color and day', () => {
+  const ids = (filter: Parameters<typeof filterGameRecords>[1]) => filterGameRecords(RECORDS, filter).map(({ id }) => id);
+  assert.deepEqual(ids({}), ['a', 'b', 'c', 'd']);
+  assert.deepEqual(ids({ level: 'hard' }), ['b', 'c']);
+  assert.deepEqual(ids({ aiColor: 'black' }), ['b', 'd']);
+  assert.deepEqual(ids({ level: 'easy', aiColor: 'white' }), ['a']);
+  // Both ends of the range are included.
+  assert.deepEqual(ids({ from: localDay(noon(2)), to: localDay(noon(3)) }), ['b', 'c']);
+  assert.deepEqual(ids({ from: '2024-05-04' }), ['d']);
+  assert.deepEqual(ids({ to: '2024-04-30' }), []);
+});
+
+test('the series counts outcomes from the AI side', () => {
+  assert.deepEqual(gameRecordSeries(RECORDS, 1), [{ games: 4, aiWins: 2, opponentWins: 1 }]);
+});
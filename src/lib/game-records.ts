@@ -0,0 +1,102 @@
+import type { Player, Score } from '@/types/othello';
+import { getOpponent } from './othello';
+import type { GameResult } from './game';
+import type { TrainingSnapshot } from './training';
+import { toWinRateSeries, batchSizeFor, type Outcome, type WinRatePoint } from './win-rate';
+
+// Results of finished games, kept so the win-rate chart can show how the AI
+// actually fares instead of made-up numbers.
+
+// 'human' games are the user against the AI; 'self-play' games are the training
+// AI against its untrained baseline.
+export type GameRecordSource = 'human' | 'self-play';
+
+export const SELF_PLAY_LEVEL = 'self-play';
+
+export interface GameRecord {
+  id: string;
+  // When the game finished, as an ISO timestamp.
+  playedAt: string;
+  source: GameRecordSource;
+  // The difficulty the AI played at, or SELF_PLAY_LEVEL for training games.
+  level: string;
+  // The side the AI played; for self-play, the side of the weights in training.
+  aiColor: Player;
+  winner: Player | 'draw';
+  score: Score;
+}
+
+export interface GameRecordFilter {
+  // A difficulty, SELF_PLAY_LEVEL, or undefined for every level.
+  level?: string;
+  aiColor?: Player;
+  // Inclusive calendar days as YYYY-MM-DD, in local time.
+  from?: string;
+  to?: string;
+}
+
+export function humanGameRecord(id: string, result: GameResult, userPlayer: Player, level: string): GameRecord {
+  return {
+    id,
+    playedAt: new Date().toISOString(),
+    source: 'human',
+    level,
+    aiColor: getOpponent(userPlayer),
+    winner: result.winner,
+    score: result.score,
+  };
+}
+
+// One record per game the snapshot's weights played against the baseline.
+export function selfPlayRecords(snapshot: TrainingSnapshot, playedAt: string): GameRecord[] {
+  return snapshot.games.map((game, i) => ({
+    id: `${SELF_PLAY_LEVEL}:${playedAt}:${snapshot.generation}:${i}`,
+    playedAt,
+    source: 'self-play',
+    level: SELF_PLAY_LEVEL,
+    aiColor: game.learnerColor,
+    winner: game.winner,
+    score: game.score,
+  }));
+}
+
+// Replaces records with the same id, so a game finished again after an undo
+// counts once, and keeps the newest `limit` records.
+export function mergeGameRecords(records: GameRecord[], added: GameRecord[], limit: number): GameRecord[] {
+  const ids = new Set(added.map(record => record.id));
+  const merged = [...records.filter(record => !ids.has(record.id)), ...added];
+  merged.sort((a, b) => a.playedAt.localeCompare(b.playedAt));
+  return merged.slice(-limit);
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// The local calendar day of an ISO timestamp, as YYYY-MM-DD.
+export function localDay(timestamp: string): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function filterGameRecords(records: GameRecord[], { level, aiColor, from, to }: GameRecordFilter): GameRecord[] {
+  return records.filter(record => {
+    if (level && record.level !== level) return false;
+    if (aiColor && record.aiColor !== aiColor) return false;
+    const day = localDay(record.playedAt);
+    if (from && day < from) return false;
+    if (to && day > to) return false;
+    return true;
+  });
+}
+
+export function recordOutcome(record: GameRecord): Outcome {
+  if (record.winner === 'draw') return 'draw';
+  return record.winner === record.aiColor ? 'win' : 'loss';
+}
+
+// The records, oldest first, split into at most `maxBatches` bars.
+export function gameRecordSeries(records: GameRecord[], maxBatches: number): WinRatePoint[] {
+  const outcomes = [...records]
+    .sort((a, b) => a.playedAt.localeCompare(b.playedAt))
+    .map(recordOutcome);
+  return toWinRateSeries(outcomes, batchSizeFor(outcomes.length, maxBatches));
+}
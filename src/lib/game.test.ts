@@ -0,0 +1,163 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createGameState,
+  gameReducer,
+  standardStart,
+  type GameAction,
+  type GameEnding,
+  type GameStart,
+  type GameState,
+} from './game';
+import { createInitialBoard } from './othello';
+import { parsePosition, squareToMove } from './notation';
+import { STANDARD_VARIANT, type GameVariant } from './variants';
+
+const move = (square: string) => squareToMove(square)!;
+
+const play = (state: GameState, ...actions: GameAction[]) => actions.reduce(gameReducer, state);
+
+const place = (...squares: string[]): GameAction[] => squares.map(square => ({ type: 'place', move: move(square) }));
+
+function startFrom(position: string, variant: GameVariant = STANDARD_VARIANT): GameState {
+  const { board, sideToMove } = parsePosition(position);
+  const start: GameStart = { board, currentPlayer: sideToMove, variant };
+  return gameReducer(createGameState(), { type: 'start', userPlayer: 'black', start });
+}
+
+// Black a1 and white b1 on the top row, white g8 and black h8 on the bottom.
+const EDGES = 'BW______/________/________/________/________/________/________/______WB';
+
+test('starting a game puts black to move on the standard board', () => {
+  const state = gameReducer(createGameState(), { type: 'start', userPlayer: 'white', start: standardStart() });
+  assert.equal(state.status, 'playing');
+  assert.equal(state.currentPlayer, 'black');
+  assert.equal(state.userPlayer, 'white');
+  assert.deepEqual(state.events, []);
+});
+
+test('a game can start on a smaller board', () => {
+  const start: GameStart = { board: createInitialBoard(6), currentPlayer: 'black', variant: STANDARD_VARIANT };
+  const state = gameReducer(createGameState(), { type: 'start', userPlayer: 'black', start });
+  assert.equal(state.board.length, 6);
+  assert.deepEqual(
+    play(state, ...place('e4')).events.map(e => e.type === 'move' && e.score),
+    [{ black: 4, white: 1 }]
+  );
+});
+
+test('a legal move is recorded with its flips and hands the turn over', () => {
+  const state = play(gameReducer(createGameState(), { type: 'start', userPlayer: 'black', start: standardStart() }), ...place('f5'));
+  assert.equal(state.currentPlayer, 'white');
+  assert.equal(state.events.length, 1);
+  const [event] = state.events;
+  assert.equal(event.type, 'move');
+  assert.deepEqual(event.type === 'move' && event.flips, [move('e5')]);
+  assert.deepEqual(event.score, { black: 4, white: 1 });
+});
+
+test('an illegal move leaves the state unchanged', () => {
+  const state = gameReducer(createGameState(), { type: 'start', userPlayer: 'black', start: standardStart() });
+  assert.equal(gameReducer(state, { type: 'place', move: move('a1') }), state);
+});
+
+test('a side without a legal move passes automatically', () => {
+  // After c1 white has no move, so black moves again.
+  const state = play(startFrom(`${EDGES} B`), ...place('c1'));
+  assert.equal(state.status, 'playing');
+  assert.equal(state.currentPlayer, 'black');
+  assert.deepEqual(
+    state.events.map(e => `${e.type}:${e.player}`),
+    ['move:black', 'pass:white']
+  );
+});
+
+test('a game set up with the side to move stuck opens with its pass', () => {
+  const state = startFrom(`${EDGES} W`);
+  assert.equal(state.currentPlayer, 'black');
+  assert.deepEqual(state.events.map(e => e.type), ['pass']);
+});
+
+test('passing is refused while a legal move exists', () => {
+  const state = startFrom(`${EDGES} B`);
+  assert.equal(gameReducer(state, { type: 'pass' }), state);
+});
+
+test('the game ends when neither side can move', () => {
+  const state = play(startFrom(`${EDGES} B`), ...place('c1', 'f8'));
+  assert.equal(state.status, 'gameOver');
+  assert.deepEqual(state.result, { winner: 'black', reason: 'completed', score: { black: 6, white: 0 } });
+});
+
+test('in Anti-Othello the side with fewer discs wins', () => {
+  const state = play(startFrom(`${EDGES} B`, { scoring: 'misere', start: 'standard' }), ...place('c1', 'f8'));
+  assert.equal(state.result?.winner, 'white');
+});
+
+test('resigning and running out of time give the game to the opponent', () => {
+  const state = gameReducer(createGameState(), { type: 'start', userPlayer: 'black', start: standardStart() });
+  const resigned = gameReducer(state, { type: 'resign', player: 'black' });
+  assert.equal(resigned.status, 'gameOver');
+  assert.equal(resigned.result?.winner, 'white');
+  assert.equal(resigned.result?.reason, 'resign');
+
+  const timedOut = gameReducer(state, { type: 'timeout', player: 'white' });
+  assert.equal(timedOut.result?.winner, 'black');
+  assert.equal(timedOut.result?.reason, 'timeout');
+  assert.equal(gameReducer(timedOut, { type: 'resign', player: 'black' }), timedOut);
+});
+
+test('undo takes back the user move with the reply, and redo replays both', () => {
+  const played = play(
+    gameReducer(createGameState(), { type: 'start', userPlayer: 'black', start: standardStart() }),
+    ...place('f5', 'd6', 'c3', 'd3')
+  );
+  const undone = gameReducer(played, { type: 'undo' });
+  assert.equal(undone.events.length, 2);
+  assert.equal(undone.undone.length, 2);
+  assert.equal(undone.currentPlayer, 'black');
+
+  const redone = gameReducer(undone, { type: 'redo' });
+  assert.deepEqual(redone.events, played.events);
+  assert.deepEqual(redone.board, played.board);
+  assert.deepEqual(redone.undone, []);
+
+  // A new move discards what was undone.
+  const branched = play(undone, ...place('c4'));
+  assert.deepEqual(branched.undone, []);
+});
+
+test('a finished game can be reviewed move by move', () => {
+  const over = play(startFrom(`${EDGES} B`), ...place('c1', 'f8'));
+  const review = gameReducer(over, { type: 'review' });
+  assert.equal(review.status, 'review');
+  assert.equal(review.reviewPly, 3);
+  assert.equal(gameReducer(review, { type: 'seek', ply: 99 }).reviewPly, 3);
+  assert.equal(gameReducer(review, { type: 'seek', ply: -1 }).reviewPly, 0);
+  const back = gameReducer(review, { type: 'exitReview' });
+  assert.equal(back.status, 'gameOver');
+  assert.equal(back.result, over.result);
+});
+
+test('a loaded game can be reviewed but not taken back into play', () => {
+  const load = (ending: GameEnding | null): GameAction => ({
+    type: 'load',
+    start: standardStart(),
+    moves: ['f5', 'd6', 'c3'].map(move),
+    ending,
+  });
+
+  const resigned = gameReducer(createGameState(), load({ reason: 'resign', winner: 'black' }));
+  assert.equal(resigned.status, 'review');
+  assert.equal(resigned.result?.reason, 'resign');
+  const over = gameReducer(resigned, { type: 'exitReview' });
+  assert.equal(over.status, 'gameOver');
+  assert.equal(gameReducer(over, { type: 'undo' }), over);
+
+  // Without a result there is no game-over screen to leave review for.
+  const unfinished = gameReducer(createGameState(), load(null));
+  assert.equal(unfinished.result, null);
+  assert.equal(gameReducer(unfinished, { type: 'exitReview' }), unfinished);
+  assert.equal(gameReducer(unfinished, { type: 'undo' }), unfinished);
+  assert.equal(gameReducer(unfinished, { type: 'redo' }), unfinished);
+});
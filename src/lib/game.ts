@@ -0,0 +1,274 @@
+import type { BoardState, Player, Move, Score } from '@/types/othello';
+import { createInitialBoard, getValidMoves, applyMove, getScore, getOpponent, getFlipsForMove, getWinner } from './othello';
+import type { TranscriptEntry } from './notation';
+import { STANDARD_VARIANT, type GameVariant } from './variants';
+
+export type GameStatus = 'menu' | 'playing' | 'gameOver' | 'review';
+
+// Each recorded event carries the score after it was played.
+export type GameEvent =
+  | { type: 'move'; player: Player; move: Move; flips: Move[]; score: Score }
+  | { type: 'pass'; player: Player; score: Score };
+
+export type GameOverReason = 'completed' | 'resign' | 'timeout';
+
+// How a game that did not play out to the end was decided.
+export interface GameEnding {
+  reason: Exclude<GameOverReason, 'completed'>;
+  winner: Player;
+}
+
+export interface GameResult {
+  winner: Player | 'draw';
+  reason: GameOverReason;
+  score: Score;
+}
+
+// Where a game begins: the board before the first event, whose size is the
+// size of the game, and the player to move on it.
+export interface GameStart {
+  board: BoardState;
+  currentPlayer: Player;
+  variant: GameVariant;
+}
+
+export interface GameState {
+  status: GameStatus;
+  start: GameStart;
+  board: BoardState;
+  currentPlayer: Player;
+  userPlayer: Player;
+  lastMove: Move | null;
+  events: GameEvent[];
+  // Events taken back by undo, oldest first, replayed by redo.
+  undone: GameEvent[];
+  result: GameResult | null;
+  // The number of events shown while reviewing a finished game.
+  reviewPly: number;
+  // Loaded from a game record rather than played here, so it can be reviewed
+  // but never taken back into play.
+  loaded: boolean;
+}
+
+// The position after a given number of events, with the event that led to it.
+export interface TimelineEntry {
+  board: BoardState;
+  currentPlayer: Player;
+  event: GameEvent | null;
+}
+
+export type GameAction =
+  | { type: 'start'; userPlayer: Player; start: GameStart }
+  // Loads a game played elsewhere, passes omitted, straight into review. One
+  // without a result stays in review.
+  | { type: 'load'; start: GameStart; moves: Move[]; ending: GameEnding | null }
+  | { type: 'place'; move: Move }
+  | { type: 'pass' }
+  | { type: 'resign'; player: Player }
+  | { type: 'timeout'; player: Player }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'review' }
+  | { type: 'seek'; ply: number }
+  | { type: 'exitReview' };
+
+export const standardStart = (): GameStart => ({
+  board: createInitialBoard(),
+  currentPlayer: 'black',
+  variant: STANDARD_VARIANT,
+});
+
+export function createGameState(userPlayer: Player = 'black', start: GameStart = standardStart()): GameState {
+  return {
+    status: 'menu',
+    start,
+    board: start.board,
+    currentPlayer: start.currentPlayer,
+    userPlayer,
+    lastMove: null,
+    events: [],
+    undone: [],
+    result: null,
+    reviewPly: 0,
+    loaded: false,
+  };
+}
+
+function finishGame(state: GameState, reason: GameOverReason, winner?: Player): GameState {
+  const score = getScore(state.board);
+  return {
+    ...state,
+    status: 'gameOver',
+    result: { winner: winner ?? getWinner(score, state.start.variant.scoring), reason, score },
+  };
+}
+
+// Records a pass by the player to move, ending the game if the opponent cannot move either.
+function passTurn(state: GameState): GameState {
+  const passed: GameState = {
+    ...state,
+    events: [...state.events, { type: 'pass', player: state.currentPlayer, score: getScore(state.board) }],
+    currentPlayer: getOpponent(state.currentPlayer),
+  };
+  if (getValidMoves(passed.board, passed.currentPlayer).length === 0) {
+    return finishGame(passed, 'completed');
+  }
+  return passed;
+}
+
+// A set-up position can leave the player to move without a legal move, in
+// which case the game opens with their pass.
+function beginGame(userPlayer: Player, start: GameStart): GameState {
+  const state: GameState = { ...createGameState(userPlayer, start), status: 'playing' };
+  return getValidMoves(state.board, state.currentPlayer).length > 0 ? state : passTurn(state);
+}
+
+// Hands the turn to the next player, recording a forced pass when they have no
+// legal move and ending the game when neither side can move.
+function advanceTurn(state: GameState): GameState {
+  const next = getOpponent(state.currentPlayer);
+  if (getValidMoves(state.board, next).length > 0) {
+    return { ...state, currentPlayer: next };
+  }
+  if (getValidMoves(state.board, state.currentPlayer).length > 0) {
+    return { ...state, events: [...state.events, { type: 'pass', player: next, score: getScore(state.board) }] };
+  }
+  return finishGame({ ...state, currentPlayer: next }, 'completed');
+}
+
+function placeDisc(state: GameState, move: Move): GameState {
+  const flips = getFlipsForMove(state.board, state.currentPlayer, move.row, move.col);
+  if (flips.length === 0) {
+    return state;
+  }
+  const board = applyMove(state.board, state.currentPlayer, move.row, move.col);
+  return advanceTurn({
+    ...state,
+    board,
+    lastMove: move,
+    events: [...state.events, { type: 'move', player: state.currentPlayer, move, flips, score: getScore(board) }],
+  });
+}
+
+// Rebuilds a game from its recorded moves. Passes are forced, so replaying the
+// moves alone recreates them.
+function replayEvents({ userPlayer, start }: GameState, events: GameEvent[]): GameState {
+  let state = beginGame(userPlayer, start);
+  for (const event of events) {
+    if (event.type === 'move') {
+      state = placeDisc(state, event.move);
+    }
+  }
+  return state;
+}
+
+export function buildTimeline(events: GameEvent[], start: GameStart): TimelineEntry[] {
+  let board = start.board;
+  const timeline: TimelineEntry[] = [{ board, currentPlayer: start.currentPlayer, event: null }];
+  for (const event of events) {
+    if (event.type === 'move') {
+      board = applyMove(board, event.player, event.move.row, event.move.col);
+    }
+    timeline.push({ board, currentPlayer: getOpponent(event.player), event });
+  }
+  return timeline;
+}
+
+export const eventsToTranscript = (events: GameEvent[]): TranscriptEntry[] =>
+  events.map(event => (event.type === 'move' ? event.move : 'pass'));
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'start':
+      return beginGame(action.userPlayer, action.start);
+
+    case 'load': {
+      let loaded = beginGame(state.userPlayer, action.start);
+      for (const move of action.moves) {
+        loaded = placeDisc(loaded, move);
+      }
+      if (loaded.status === 'playing' && action.ending) {
+        loaded = finishGame(loaded, action.ending.reason, action.ending.winner);
+      }
+      return { ...loaded, status: 'review', reviewPly: loaded.events.length, loaded: true };
+    }
+
+    case 'place': {
+      if (state.status !== 'playing') {
+        return state;
+      }
+      const placed = placeDisc(state, action.move);
+      return placed === state ? state : { ...placed, undone: [] };
+    }
+
+    case 'pass': {
+      // Passing is only legal when the side to move has nothing to play.
+      if (state.status !== 'playing' || getValidMoves(state.board, state.currentPlayer).length > 0) {
+        return state;
+      }
+      return passTurn(state);
+    }
+
+    case 'resign':
+    case 'timeout':
+      if (state.status !== 'playing') {
+        return state;
+      }
+      return finishGame(state, action.type === 'resign' ? 'resign' : 'timeout', getOpponent(action.player));
+
+    case 'undo': {
+      // Take back everything from the user's last move onwards, which includes
+      // the AI's reply and any passes in between.
+      const lastUserMove = findLastIndex(state.events, e => e.type === 'move' && e.player === state.userPlayer);
+      if ((state.status !== 'playing' && state.status !== 'gameOver') || state.loaded || lastUserMove < 0) {
+        return state;
+      }
+      return {
+        ...replayEvents(state, state.events.slice(0, lastUserMove)),
+        undone: [...state.events.slice(lastUserMove), ...state.undone],
+      };
+    }
+
+    case 'redo': {
+      // Replay the next user move together with the replies that followed it.
+      const nextUserMove = state.undone.findIndex((e, i) => i > 0 && e.type === 'move' && e.player === state.userPlayer);
+      const count = nextUserMove < 0 ? state.undone.length : nextUserMove;
+      if (state.status !== 'playing' || state.loaded || count === 0) {
+        return state;
+      }
+      return {
+        ...replayEvents(state, [...state.events, ...state.undone.slice(0, count)]),
+        undone: state.undone.slice(count),
+      };
+    }
+
+    case 'review':
+      if (state.status !== 'gameOver') {
+        return state;
+      }
+      return { ...state, status: 'review', reviewPly: state.events.length };
+
+    case 'seek':
+      if (state.status !== 'review') {
+        return state;
+      }
+      return { ...state, reviewPly: Math.max(0, Math.min(action.ply, state.events.length)) };
+
+    case 'exitReview':
+      // An unfinished imported game has no game-over screen to return to.
+      if (state.status !== 'review' || !state.result) {
+        return state;
+      }
+      return { ...state, status: 'gameOver', reviewPly: 0 };
+
+    default:
+      return state;
+  }
+}
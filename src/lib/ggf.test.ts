@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGameState, gameReducer, standardStart, type GameAction, type GameState } from './game';
+import { gameToGgf, ggfGameStart, parseGgf, serializeGgf, validateGgf, formatGgfDate } from './ggf';
+import { createInitialBoard } from './othello';
+import { squareToMove } from './notation';
+
+const move = (square: string) => squareToMove(square)!;
+
+const play = (state: GameState, ...actions: GameAction[]) => actions.reduce(gameReducer, state);
+
+const SAMPLE =
+  '(;GM[Othello]PC[NIOS]DT[2003.01.31_13:45:00.GMT]PB[alice]PW[bob]TY[8]RE[-2.000:r]' +
+  'BO[8 -------- -------- -------- ---O*--- ---*O--- -------- -------- -------- *]' +
+  'B[f5//1:05]W[d6/-0.50/3]B[c3/1]W[PA];)';
+
+test('parses the properties, moves and result of a game', () => {
+  const game = parseGgf(`Some text before. ${SAMPLE}`);
+  assert.equal(game.black, 'alice');
+  assert.equal(game.white, 'bob');
+  assert.equal(game.place, 'NIOS');
+  assert.equal(game.date, '2003.01.31_13:45:00.GMT');
+  assert.equal(game.scoring, 'standard');
+  assert.deepEqual(game.start, { board: createInitialBoard(), sideToMove: 'black' });
+  assert.deepEqual(game.moves, [
+    { player: 'black', entry: move('f5'), time: 65 },
+    { player: 'white', entry: move('d6'), evaluation: -0.5, time: 3 },
+    { player: 'black', entry: move('c3'), evaluation: 1 },
+    { player: 'white', entry: 'pass' },
+  ]);
+  assert.deepEqual(game.result, { margin: -2, reason: 'resign' });
+});
+
+test('reads the board size and Anti-Othello from TY', () => {
+  const game = parseGgf('(;GM[Othello]TY[a6];)');
+  assert.equal(game.scoring, 'misere');
+  assert.deepEqual(game.start.board, createInitialBoard(6));
+  assert.throws(() => parseGgf('(;GM[Othello]TY[7];)'), /Unsupported board size/);
+  assert.throws(() => parseGgf('(;GM[Othello]TY[s8];)'), /Synchro/);
+  assert.throws(() => parseGgf('(;GM[Chess];)'), /not an Othello game/);
+  assert.throws(() => parseGgf('GM[Othello]'), /No GGF game found/);
+});
+
+test('validation replays the moves and names the first one that breaks the rules', () => {
+  const replay = validateGgf('(;GM[Othello]TY[8]B[f5]W[d6]B[c3]RE[-2:r];)');
+  assert.ok(replay.valid);
+  assert.deepEqual(replay.moves, [move('f5'), move('d6'), move('c3')]);
+  assert.equal(replay.currentPlayer, 'white');
+  assert.equal(replay.finished, false);
+  assert.deepEqual(replay.ending, { reason: 'resign', winner: 'white' });
+
+  const cases: [string, RegExp][] = [
+    ['B[f5]B[d6]', /^Move 2 \(black d6\): it is white's turn\.$/],
+    ['B[a1]', /^Move 1 \(black a1\): not a legal move\.$/],
+    ['B[f5]W[PA]', /^Move 2 \(white PA\): white cannot pass while a legal move exists\.$/],
+  ];
+  for (const [moves, error] of cases) {
+    const result = validateGgf(`(;GM[Othello]TY[8]${moves};)`);
+    assert.ok(!result.valid);
+    assert.match(result.error, error);
+  }
+});
+
+test('validation adds the forced passes a file leaves out', () => {
+  const empty = Array(6).fill('--------').join(' ');
+  const replay = validateGgf(`(;GM[Othello]TY[8]BO[8 *O------ ${empty} ------O* *]B[c1]B[f8];)`);
+  assert.ok(replay.valid);
+  assert.deepEqual(replay.moves, [move('c1'), move('f8')]);
+  assert.deepEqual(
+    replay.game.moves.map(({ player, entry }) => [player, entry]),
+    [['black', move('c1')], ['white', 'pass'], ['black', move('f8')]]
+  );
+  assert.equal(replay.finished, true);
+});
+
+test('a serialized game parses back to the same game', () => {
+  const game = parseGgf(SAMPLE);
+  const text = serializeGgf(game);
+  assert.deepEqual(parseGgf(text), game);
+  assert.equal(serializeGgf(parseGgf(text)), text);
+  assert.match(text, /RE\[-2\.000:r\]/);
+});
+
+test('formats dates in UTC', () => {
+  assert.equal(formatGgfDate(new Date(Date.UTC(2003, 0, 31, 13, 45, 0))), '2003.01.31_13:45:00.GMT');
+});
+
+test('an exported game loads back into the same state', () => {
+  const started = gameReducer(createGameState(), { type: 'start', userPlayer: 'black', start: standardStart() });
+  const resigned = play(
+    started,
+    ...['f5', 'd6', 'c3', 'd3'].map(square => ({ type: 'place', move: move(square) }) as GameAction),
+    { type: 'resign', player: 'black' }
+  );
+  const exported = gameToGgf(resigned, { black: 'You', white: 'Engine' });
+  assert.deepEqual(exported.result, { margin: -1, reason: 'resign' });
+
+  const replay = validateGgf(serializeGgf(exported));
+  assert.ok(replay.valid);
+  const loaded = gameReducer(createGameState(), {
+    type: 'load',
+    start: ggfGameStart(replay.game),
+    moves: replay.moves,
+    ending: replay.ending,
+  });
+  assert.equal(loaded.status, 'review');
+  assert.equal(loaded.start.variant.start, 'standard');
+  assert.deepEqual(loaded.events, resigned.events);
+  assert.deepEqual(loaded.board, resigned.board);
+  assert.deepEqual(loaded.result, resigned.result);
+  assert.equal(loaded.reviewPly, resigned.events.length);
+});
+
+test('a game from a set-up position keeps its start', () => {
+  const replay = validateGgf('(;GM[Othello]TY[8]BO[8 -------- -------- -------- ---O*--- ---*O--- -------- -------- -------- O]W[f4];)');
+  assert.ok(replay.valid);
+  const start = ggfGameStart(replay.game);
+  assert.equal(start.currentPlayer, 'white');
+  assert.equal(start.variant.start, 'custom');
+});
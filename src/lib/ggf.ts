@@ -0,0 +1,310 @@
+import type { BoardState, CellState, Player, Move, Scoring } from '@/types/othello';
+import { createInitialBoard, getValidMoves, isValidMove, applyMove, getOpponent, getScore } from './othello';
+import { isBoardSize, BOARD_SIZES } from './bitboard';
+import { squareToMove, entryToString, type PositionSetup, type TranscriptEntry } from './notation';
+import type { GameEnding, GameOverReason, GameStart, GameState } from './game';
+
+// Generic Game Format, as used by the Internet Othello Server and most Othello
+// programs. A game is a list of KEY[value] properties between "(;" and ";)":
+//   (;GM[Othello]PB[alice]PW[bob]TY[8]BO[8 ---...--- *]B[f5//1.2]W[d6/-0.5]...RE[+4.000];)
+// Boards list the squares row by row with '-' empty, '*' black and 'O' white,
+// followed by the side to move. Moves are a square or PA for a pass,
+// optionally followed by /eval/time. TY holds the board size, with an 'a'
+// for Anti-Othello.
+
+export interface GgfMove {
+  player: Player;
+  entry: TranscriptEntry;
+  // The mover's evaluation, in discs.
+  evaluation?: number;
+  // Seconds spent on the move.
+  time?: number;
+}
+
+// For a completed game the margin is black's discs minus white's; after a
+// resignation or timeout only its sign counts, positive when black won.
+export interface GgfResult {
+  margin: number;
+  reason: GameOverReason;
+}
+
+export interface GgfGame {
+  black: string;
+  white: string;
+  // The DT property, kept as written.
+  date?: string;
+  place?: string;
+  scoring: Scoring;
+  start: PositionSetup;
+  moves: GgfMove[];
+  // Null when the game has no result, such as one still in progress.
+  result: GgfResult | null;
+}
+
+const CELL_CHARS: Record<string, CellState> = { '-': 'empty', '*': 'black', O: 'white' };
+const SIDE_CHARS: Record<string, Player> = { '*': 'black', O: 'white' };
+const REASON_SUFFIXES: Partial<Record<GameOverReason, string>> = { resign: 'r', timeout: 't' };
+
+const cellChar = (cell: CellState) => (cell === 'black' ? '*' : cell === 'white' ? 'O' : '-');
+
+function parseBoard(value: string): PositionSetup {
+  const [sizeText, ...rows] = value.trim().split(/\s+/);
+  const size = Number(sizeText);
+  if (!isBoardSize(size)) {
+    throw new Error(`Unsupported board size "${sizeText}"; boards have ${BOARD_SIZES.join(', ')} rows.`);
+  }
+  const squares = rows.join('').toUpperCase();
+  const side = SIDE_CHARS[squares.slice(-1)];
+  const cells = squares.slice(0, -1);
+  if (!side || cells.length !== size * size) {
+    throw new Error(`BO[${value}] needs ${size * size} squares followed by the side to move.`);
+  }
+  const board: BoardState = [];
+  for (let r = 0; r < size; r++) {
+    board.push(
+      Array.from(cells.slice(r * size, (r + 1) * size), char => {
+        const cell = CELL_CHARS[char];
+        if (!cell) {
+          throw new Error(`Unrecognized square "${char}" in BO[]; use -, * or O.`);
+        }
+        return cell;
+      })
+    );
+  }
+  return { board, sideToMove: side };
+}
+
+// Times are seconds, optionally written as m:ss or h:mm:ss.
+function parseTime(text: string): number | undefined {
+  if (!text) return undefined;
+  const seconds = text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return Number.isFinite(seconds) ? seconds : undefined;
+}
+
+function parseMove(player: Player, value: string): GgfMove {
+  const [square, evaluation = '', time = ''] = value.split('/');
+  const entry = /^\s*(pa|pass)\s*$/i.test(square) ? 'pass' : squareToMove(square);
+  if (!entry) {
+    throw new Error(`Unrecognized move "${value}".`);
+  }
+  const parsed: GgfMove = { player, entry };
+  if (evaluation.trim() && Number.isFinite(Number(evaluation))) parsed.evaluation = Number(evaluation);
+  const seconds = parseTime(time.trim());
+  if (seconds !== undefined) parsed.time = seconds;
+  return parsed;
+}
+
+function parseResult(value: string): GgfResult | null {
+  const match = /^\s*([+-]?\d+(?:\.\d*)?)\s*(?::([a-z]))?/i.exec(value);
+  if (!match) return null;
+  const suffix = match[2]?.toLowerCase();
+  const reason = suffix === 'r' ? 'resign' : suffix === 't' ? 'timeout' : 'completed';
+  return { margin: Number(match[1]), reason };
+}
+
+// Parses the first game in the text. Throws if there is none or it is malformed;
+// the moves are only checked against the rules by validateGgf.
+export function parseGgf(text: string): GgfGame {
+  const start = text.indexOf('(;');
+  const end = text.indexOf(';)', start + 2);
+  if (start < 0 || end < 0) {
+    throw new Error('No GGF game found; games start with "(;" and end with ";)".');
+  }
+
+  let type: string | null = null;
+  let board: PositionSetup | null = null;
+  const game: GgfGame = {
+    black: '',
+    white: '',
+    scoring: 'standard',
+    start: { board: createInitialBoard(), sideToMove: 'black' },
+    moves: [],
+    result: null,
+  };
+
+  for (const [, key, value] of text.slice(start + 2, end).matchAll(/([A-Z0-9]+)\[([^\]]*)\]/g)) {
+    switch (key) {
+      case 'GM':
+        if (value.trim().toLowerCase() !== 'othello') {
+          throw new Error(`GM[${value}] is not an Othello game.`);
+        }
+        break;
+      case 'PB':
+        game.black = value;
+        break;
+      case 'PW':
+        game.white = value;
+        break;
+      case 'DT':
+        game.date = value;
+        break;
+      case 'PC':
+        game.place = value;
+        break;
+      case 'TY':
+        type = value.trim().toLowerCase();
+        break;
+      case 'BO':
+        board = parseBoard(value);
+        break;
+      case 'B':
+      case 'W':
+        game.moves.push(parseMove(key === 'B' ? 'black' : 'white', value));
+        break;
+      case 'RE':
+        game.result = parseResult(value);
+        break;
+    }
+  }
+
+  if (type !== null) {
+    if (type.includes('s')) {
+      throw new Error('Synchro games, where both sides move at once, are not supported.');
+    }
+    game.scoring = type.includes('a') ? 'misere' : 'standard';
+  }
+  const typeSize = type !== null ? Number(/\d+/.exec(type)?.[0]) : NaN;
+  if (board) {
+    if (Number.isFinite(typeSize) && typeSize !== board.board.length) {
+      throw new Error(`TY[${type}] does not match the ${board.board.length} x ${board.board.length} board.`);
+    }
+    game.start = board;
+  } else if (Number.isFinite(typeSize)) {
+    if (!isBoardSize(typeSize)) {
+      throw new Error(`Unsupported board size in TY[${type}]; boards have ${BOARD_SIZES.join(', ')} rows.`);
+    }
+    game.start = { board: createInitialBoard(typeSize), sideToMove: 'black' };
+  }
+  return game;
+}
+
+export interface GgfReplay {
+  game: GgfGame;
+  // The moves in order without passes, which replaying recreates.
+  moves: Move[];
+  board: BoardState;
+  currentPlayer: Player;
+  // True when neither side can move at the end.
+  finished: boolean;
+  // How an unfinished game ended, when its result records a resignation or timeout.
+  ending: GameEnding | null;
+}
+
+// Parses the game and plays every move from its start position, so an import
+// fails on the first move that breaks the rules. Forced passes the file leaves
+// out are added to the game's moves, as replayTranscript does.
+export function validateGgf(text: string): ({ valid: true } & GgfReplay) | { valid: false; error: string } {
+  try {
+    const game = parseGgf(text);
+    let { board, sideToMove: currentPlayer } = game.start;
+    const moves: Move[] = [];
+    const recorded: GgfMove[] = [];
+
+    game.moves.forEach((gameMove, index) => {
+      const { player, entry } = gameMove;
+      const label = `Move ${index + 1} (${player} ${entryToString(entry)})`;
+      if (player !== currentPlayer && entry !== 'pass' && getValidMoves(board, currentPlayer).length === 0) {
+        recorded.push({ player: currentPlayer, entry: 'pass' });
+        currentPlayer = player;
+      }
+      if (player !== currentPlayer) {
+        throw new Error(`${label}: it is ${currentPlayer}'s turn.`);
+      }
+      if (entry === 'pass') {
+        if (getValidMoves(board, player).length > 0) {
+          throw new Error(`${label}: ${player} cannot pass while a legal move exists.`);
+        }
+        if (getValidMoves(board, getOpponent(player)).length === 0) {
+          throw new Error(`${label}: the game is already over.`);
+        }
+      } else {
+        if (!isValidMove(board, player, entry.row, entry.col)) {
+          throw new Error(`${label}: not a legal move.`);
+        }
+        board = applyMove(board, player, entry.row, entry.col);
+        moves.push(entry);
+      }
+      recorded.push(gameMove);
+      currentPlayer = getOpponent(player);
+    });
+    game.moves = recorded;
+
+    const finished = getValidMoves(board, currentPlayer).length === 0 && getValidMoves(board, getOpponent(currentPlayer)).length === 0;
+    const { result } = game;
+    const ending =
+      !finished && result && result.reason !== 'completed' && result.margin !== 0
+        ? { reason: result.reason, winner: result.margin > 0 ? ('black' as const) : ('white' as const) }
+        : null;
+    return { valid: true, game, moves, board, currentPlayer, finished, ending };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function formatNumber(value: number, digits: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(digits);
+}
+
+export function serializeGgf(game: GgfGame): string {
+  const size = game.start.board.length;
+  const properties: [string, string][] = [['GM', 'Othello']];
+  if (game.place) properties.push(['PC', game.place]);
+  if (game.date) properties.push(['DT', game.date]);
+  properties.push(['PB', game.black], ['PW', game.white]);
+  properties.push(['TY', `${game.scoring === 'misere' ? 'a' : ''}${size}`]);
+  if (game.result) {
+    const { margin, reason } = game.result;
+    const suffix = REASON_SUFFIXES[reason];
+    properties.push(['RE', `${margin > 0 ? '+' : ''}${margin.toFixed(3)}${suffix ? `:${suffix}` : ''}`]);
+  }
+  const rows = game.start.board.map(row => row.map(cellChar).join(''));
+  properties.push(['BO', `${size} ${rows.join(' ')} ${game.start.sideToMove === 'black' ? '*' : 'O'}`]);
+  for (const { player, entry, evaluation, time } of game.moves) {
+    const annotations = [
+      evaluation !== undefined ? formatNumber(evaluation, 2) : '',
+      time !== undefined ? formatNumber(time, 2) : '',
+    ];
+    while (annotations.length > 0 && annotations[annotations.length - 1] === '') annotations.pop();
+    properties.push([player === 'black' ? 'B' : 'W', [entryToString(entry).toUpperCase(), ...annotations].join('/')]);
+  }
+  return `(;${properties.map(([key, value]) => `${key}[${value}]`).join('')};)`;
+}
+
+// GGF dates are written as 2003.01.31_13:45:00.GMT.
+export function formatGgfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}_` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}.GMT`
+  );
+}
+
+// A game from the app in GGF form, with every pass written out.
+export function gameToGgf(state: GameState, players: { black: string; white: string }, date?: Date): GgfGame {
+  const { start, events, result } = state;
+  let margin = 0;
+  if (result) {
+    const { black, white } = getScore(state.board);
+    margin = result.reason === 'completed' ? black - white : result.winner === 'black' ? 1 : -1;
+  }
+  return {
+    ...players,
+    date: date && formatGgfDate(date),
+    scoring: start.variant.scoring,
+    start: { board: start.board, sideToMove: start.currentPlayer },
+    moves: events.map(event => ({ player: event.player, entry: event.type === 'move' ? event.move : 'pass' })),
+    result: result && { margin, reason: result.reason },
+  };
+}
+
+// The imported game's start, named standard when it is the usual opening position.
+export function ggfGameStart({ start, scoring }: GgfGame): GameStart {
+  const initial = createInitialBoard(start.board.length);
+  const standard =
+    start.sideToMove === 'black' && start.board.every((row, r) => row.every((cell, c) => cell === initial[r][c]));
+  return {
+    board: start.board,
+    currentPlayer: start.sideToMove,
+    variant: { scoring, start: standard ? 'standard' : 'custom' },
+  };
+}
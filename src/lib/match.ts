@@ -0,0 +1,91 @@
+import type { Player, Position, Score, Scoring } from '@/types/othello';
+import { getOpponent, getWinner } from './othello';
+import {
+  createInitialPosition,
+  getMovesMask,
+  playMove,
+  bitsToSquares,
+  squareBit,
+  moveToBit,
+  indexToMove,
+  getPositionScore,
+  DEFAULT_BOARD_SIZE,
+} from './bitboard';
+import type { Engine } from './engine';
+import type { TranscriptEntry } from './notation';
+
+// Plays whole games between engines, for self-play tools.
+
+export interface Opening {
+  position: Position;
+  sideToMove: Player;
+  // The moves that led from the standard start to `position`; empty when the
+  // game starts from another layout.
+  moves: TranscriptEntry[];
+}
+
+export interface MatchGame {
+  // Every move and pass from the start, the opening's moves included.
+  transcript: TranscriptEntry[];
+  score: Score;
+  winner: Player | 'draw';
+}
+
+export interface PlayGameOptions {
+  opening?: Opening;
+  // Budget for each move, by the color the engine plays.
+  timeLimitMs: Record<Player, number>;
+  scoring?: Scoring;
+  signal?: AbortSignal;
+}
+
+export function createStandardOpening(size: number = DEFAULT_BOARD_SIZE): Opening {
+  return { position: createInitialPosition(size), sideToMove: 'black', moves: [] };
+}
+
+// Plays `plies` uniformly random moves from the standard start.
+export function randomOpening(random: () => number, plies: number, size: number = DEFAULT_BOARD_SIZE): Opening {
+  const opening = createStandardOpening(size);
+  for (let i = 0; i < plies; i++) {
+    const moves = bitsToSquares(getMovesMask(opening.position, opening.sideToMove));
+    if (moves.length === 0) break;
+    const square = moves[Math.floor(random() * moves.length)];
+    opening.position = playMove(opening.position, opening.sideToMove, squareBit(square));
+    opening.moves.push(indexToMove(square, size));
+    opening.sideToMove = getOpponent(opening.sideToMove);
+  }
+  return opening;
+}
+
+export async function playGame(
+  black: Engine,
+  white: Engine,
+  { opening = createStandardOpening(), timeLimitMs, scoring = 'standard', signal }: PlayGameOptions
+): Promise<MatchGame> {
+  let { position, sideToMove } = opening;
+  const transcript = [...opening.moves];
+
+  for (;;) {
+    if (!getMovesMask(position, sideToMove)) {
+      if (!getMovesMask(position, getOpponent(sideToMove))) break;
+      transcript.push('pass');
+      sideToMove = getOpponent(sideToMove);
+      continue;
+    }
+    const engine = sideToMove === 'black' ? black : white;
+    const { move } = await engine.chooseMove(position, sideToMove, {
+      timeLimitMs: timeLimitMs[sideToMove],
+      scoring,
+      signal,
+    });
+    if (!move) {
+      throw new Error(`Engine returned no move for ${sideToMove} with legal moves available`);
+    }
+    position = playMove(position, sideToMove, moveToBit(move, position.size));
+    transcript.push(move);
+    sideToMove = getOpponent(sideToMove);
+  }
+
+  const score = getPositionScore(position);
+  return { transcript, score, winner: getWinner(score, scoring) };
+}
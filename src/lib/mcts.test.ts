@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BoardState, CellState } from '@/types/othello';
+import { createInitialPosition, positionFromBoard } from './bitboard';
+import { mctsSearch } from './mcts';
+
+const CELLS: Record<string, CellState> = { B: 'black', W: 'white', _: 'empty' };
+
+const toBoard = (rows: string[]): BoardState => rows.map(row => Array.from(row, char => CELLS[char]));
+
+const EMPTY_ROW = '________';
+
+test('takes the corner that wins the game outright', async () => {
+  // a1 flips both white discs and ends the game; a3 leaves white in it.
+  const position = positionFromBoard(toBoard(['_WB_____', '_W______', '__B_____', ...Array(5).fill(EMPTY_ROW)]));
+  const result = await mctsSearch(position, 'black', { timeLimitMs: 10_000, iterations: 500, seed: 7 });
+  assert.deepEqual(result.move, { row: 0, col: 0 });
+  assert.equal(result.winRate, 1);
+  assert.deepEqual(
+    result.moves.map(({ move }) => move),
+    [{ row: 0, col: 0 }, { row: 2, col: 0 }]
+  );
+});
+
+test('stops at the iteration budget or the time limit', async () => {
+  const position = createInitialPosition();
+  const counted = await mctsSearch(position, 'black', { timeLimitMs: 10_000, iterations: 200, seed: 1 });
+  assert.equal(counted.iterations, 200);
+  assert.equal(counted.moves.reduce((sum, { visits }) => sum + visits, 0), 200);
+
+  const timed = await mctsSearch(position, 'black', { timeLimitMs: 100, seed: 1 });
+  assert.ok(timed.iterations > 0);
+  assert.ok(timed.elapsedMs < 1000, `took ${timed.elapsedMs} ms`);
+  assert.equal(timed.aborted, false);
+});
+
+test('a seeded search is reproducible', async () => {
+  const position = createInitialPosition();
+  const first = await mctsSearch(position, 'black', { timeLimitMs: 10_000, iterations: 300, seed: 42 });
+  const second = await mctsSearch(position, 'black', { timeLimitMs: 10_000, iterations: 300, seed: 42 });
+  assert.deepEqual(second.moves, first.moves);
+});
+
+test('a side without a move passes without searching', async () => {
+  // White has no disc to flank with; black still has moves.
+  const position = positionFromBoard(toBoard(['BW______', ...Array(6).fill(EMPTY_ROW), '______WB']));
+  const result = await mctsSearch(position, 'white', { timeLimitMs: 10_000, iterations: 100 });
+  assert.equal(result.move, null);
+  assert.equal(result.iterations, 0);
+  assert.deepEqual(result.moves, []);
+});
+
+test('an aborted search reports it', async () => {
+  const controller = new AbortController();
+  controller.abort();
+  const result = await mctsSearch(createInitialPosition(), 'black', { timeLimitMs: 10_000, signal: controller.signal });
+  assert.equal(result.aborted, true);
+  assert.equal(result.iterations, 0);
+  assert.notEqual(result.move, null);
+});
@@ -0,0 +1,291 @@
+import type { Player, Move, Position, Bitboard, Scoring } from '@/types/othello';
+import { getOpponent, scoreMargin } from './othello';
+import {
+  getMovesMask,
+  getFlipsMask,
+  playMove,
+  getPositionScore,
+  bitsToSquares,
+  squareBit,
+  squareIndex,
+  indexToMove,
+  popCount,
+} from './bitboard';
+import { yieldToEventLoop } from './search';
+import { createRandom } from './random';
+
+// 'random' plays uniformly random moves, 'greedy' the move flipping the most
+// discs, and 'corners' takes a corner when it can and avoids X-squares otherwise.
+// Under misère scoring 'greedy' flips the fewest discs and 'corners' avoids corners.
+export type PlayoutPolicy = 'random' | 'greedy' | 'corners';
+
+export interface MctsLimits {
+  // Wall-clock budget for the whole search, in milliseconds.
+  timeLimitMs: number;
+  // Stops early after this many playouts.
+  iterations?: number;
+  // The UCT exploration constant; higher values try less visited moves more often.
+  explorationConstant?: number;
+  playoutPolicy?: PlayoutPolicy;
+  scoring?: Scoring;
+  signal?: AbortSignal;
+  // Makes the playouts reproducible; unseeded searches use Math.random.
+  seed?: number;
+}
+
+export interface MctsMoveStats {
+  move: Move;
+  visits: number;
+  // Share of playouts through this move won by the searching player, draws counting half.
+  winRate: number;
+}
+
+export interface MctsResult {
+  // The most visited move; null if the player has to pass.
+  move: Move | null;
+  winRate: number;
+  iterations: number;
+  elapsedMs: number;
+  // True when the search was cut short by the abort signal rather than the budget.
+  aborted: boolean;
+  // Statistics for every move the search tried, most visited first.
+  moves: MctsMoveStats[];
+}
+
+export interface MctsReport {
+  iterations: number;
+  move: Move | null;
+  winRate: number;
+  elapsedMs: number;
+}
+
+export const DEFAULT_EXPLORATION_CONSTANT = Math.SQRT2;
+
+// How often the clock and signal are checked, and how long the search may run
+// before it lets timers and abort events through.
+const STOP_CHECK_INTERVAL = 64;
+const YIELD_INTERVAL_MS = 50;
+const PASS = -1;
+
+// Corner and X-square masks for the corners policy, indexed by board size.
+const CORNER_MASKS: { corners: Bitboard; xSquares: Bitboard }[] = [];
+
+function cornerMasks(size: number) {
+  const maskOf = (squares: [number, number][]) =>
+    squares.reduce((mask, [r, c]) => mask | squareBit(squareIndex(r, c, size)), BigInt(0));
+  const last = size - 1;
+  return (CORNER_MASKS[size] ??= {
+    corners: maskOf([[0, 0], [0, last], [last, 0], [last, last]]),
+    xSquares: maskOf([[1, 1], [1, last - 1], [last - 1, 1], [last - 1, last - 1]]),
+  });
+}
+
+interface MctsNode {
+  position: Position;
+  sideToMove: Player;
+  // The square played to reach this node, or PASS.
+  move: number;
+  parent: MctsNode | null;
+  children: MctsNode[];
+  untried: number[];
+  visits: number;
+  // Playout results from the point of view of the player who moved into this node.
+  wins: number;
+}
+
+// Moves for the side to move, a lone PASS if it is stuck but the game goes on,
+// and nothing once neither side can move.
+function expandableMoves(position: Position, sideToMove: Player): number[] {
+  const moves = getMovesMask(position, sideToMove);
+  if (moves) {
+    return bitsToSquares(moves);
+  }
+  return getMovesMask(position, getOpponent(sideToMove)) ? [PASS] : [];
+}
+
+function createNode(position: Position, sideToMove: Player, move: number, parent: MctsNode | null): MctsNode {
+  return {
+    position,
+    sideToMove,
+    move,
+    parent,
+    children: [],
+    untried: expandableMoves(position, sideToMove),
+    visits: 0,
+    wins: 0,
+  };
+}
+
+function selectChild(node: MctsNode, explorationConstant: number): MctsNode {
+  const logVisits = Math.log(node.visits);
+  let best = node.children[0];
+  let bestValue = -Infinity;
+  for (const child of node.children) {
+    const value = child.wins / child.visits + explorationConstant * Math.sqrt(logVisits / child.visits);
+    if (value > bestValue) {
+      bestValue = value;
+      best = child;
+    }
+  }
+  return best;
+}
+
+interface PlayoutRules {
+  policy: PlayoutPolicy;
+  scoring: Scoring;
+}
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+function choosePlayoutMove(position: Position, player: Player, moves: bigint, { policy, scoring }: PlayoutRules, random: () => number): number {
+  if (policy === 'corners' && scoring === 'misere') {
+    const safe = moves & ~cornerMasks(position.size).corners;
+    return pick(bitsToSquares(safe || moves), random);
+  }
+  if (policy === 'corners') {
+    const masks = cornerMasks(position.size);
+    const corners = moves & masks.corners;
+    if (corners) return pick(bitsToSquares(corners), random);
+    const safe = moves & ~masks.xSquares;
+    return pick(bitsToSquares(safe || moves), random);
+  }
+  if (policy === 'greedy') {
+    const sign = scoring === 'misere' ? -1 : 1;
+    let best: number[] = [];
+    let bestFlips = -Infinity;
+    for (const square of bitsToSquares(moves)) {
+      const flips = sign * popCount(getFlipsMask(position, player, squareBit(square)));
+      if (flips > bestFlips) {
+        bestFlips = flips;
+        best = [square];
+      } else if (flips === bestFlips) {
+        best.push(square);
+      }
+    }
+    return pick(best, random);
+  }
+  return pick(bitsToSquares(moves), random);
+}
+
+// Plays the game out and scores it for `player`: 1 for a win, 0.5 for a draw, 0 for a loss.
+function playout(position: Position, sideToMove: Player, player: Player, rules: PlayoutRules, random: () => number): number {
+  let passed = false;
+  for (;;) {
+    const moves = getMovesMask(position, sideToMove);
+    if (moves) {
+      position = playMove(position, sideToMove, squareBit(choosePlayoutMove(position, sideToMove, moves, rules, random)));
+      passed = false;
+    } else if (passed) {
+      break;
+    } else {
+      passed = true;
+    }
+    sideToMove = getOpponent(sideToMove);
+  }
+  const margin = scoreMargin(getPositionScore(position), player, rules.scoring);
+  return margin > 0 ? 1 : margin < 0 ? 0 : 0.5;
+}
+
+function runIteration(root: MctsNode, explorationConstant: number, rules: PlayoutRules, random: () => number) {
+  // Selection: descend through fully expanded nodes.
+  let node = root;
+  while (node.untried.length === 0 && node.children.length > 0) {
+    node = selectChild(node, explorationConstant);
+  }
+
+  // Expansion: add one untried move, unless the game is over here.
+  if (node.untried.length > 0) {
+    const index = Math.floor(random() * node.untried.length);
+    const [move] = node.untried.splice(index, 1);
+    const position = move === PASS ? node.position : playMove(node.position, node.sideToMove, squareBit(move));
+    const child = createNode(position, getOpponent(node.sideToMove), move, node);
+    node.children.push(child);
+    node = child;
+  }
+
+  // Simulation, scored for the player who moved into the new node.
+  const mover = getOpponent(node.sideToMove);
+  let result = playout(node.position, node.sideToMove, mover, rules, random);
+
+  // Backpropagation, flipping the result at each level.
+  for (let current: MctsNode | null = node; current; current = current.parent) {
+    current.visits++;
+    current.wins += result;
+    result = 1 - result;
+  }
+}
+
+function mostVisited(root: MctsNode): MctsNode | null {
+  let best: MctsNode | null = null;
+  for (const child of root.children) {
+    if (!best || child.visits > best.visits) {
+      best = child;
+    }
+  }
+  return best;
+}
+
+const toMove = (node: MctsNode | null): Move | null => (node && node.move !== PASS ? indexToMove(node.move, node.position.size) : null);
+
+// Monte Carlo Tree Search with UCT selection. Runs playouts until the time or
+// iteration budget is spent or the signal fires, then plays the most visited move.
+export async function mctsSearch(
+  position: Position,
+  player: Player,
+  {
+    timeLimitMs,
+    iterations = Infinity,
+    explorationConstant = DEFAULT_EXPLORATION_CONSTANT,
+    playoutPolicy = 'corners',
+    scoring = 'standard',
+    signal,
+    seed,
+  }: MctsLimits,
+  onProgress?: (report: MctsReport) => void
+): Promise<MctsResult> {
+  const start = performance.now();
+  const deadline = start + timeLimitMs;
+  const random = createRandom(seed);
+  const root = createNode(position, player, PASS, null);
+  const legal = getMovesMask(position, player);
+  const rules: PlayoutRules = { policy: playoutPolicy, scoring };
+  let completed = 0;
+  let nextYield = start + YIELD_INTERVAL_MS;
+
+  // A forced move or pass needs no search.
+  const searchable = popCount(legal) > 1;
+  while (searchable && completed < iterations) {
+    if (completed % STOP_CHECK_INTERVAL === 0) {
+      const now = performance.now();
+      if (now > deadline || signal?.aborted) break;
+      if (now > nextYield) {
+        const best = mostVisited(root);
+        onProgress?.({
+          iterations: completed,
+          move: toMove(best),
+          winRate: best ? best.wins / best.visits : 0,
+          elapsedMs: now - start,
+        });
+        await yieldToEventLoop();
+        nextYield = performance.now() + YIELD_INTERVAL_MS;
+        if (signal?.aborted) break;
+      }
+    }
+    runIteration(root, explorationConstant, rules, random);
+    completed++;
+  }
+
+  const moves = root.children
+    .map(child => ({ move: indexToMove(child.move, position.size), visits: child.visits, winRate: child.wins / child.visits }))
+    .sort((a, b) => b.visits - a.visits);
+  const best = mostVisited(root);
+
+  return {
+    move: toMove(best) ?? bitsToSquares(legal).map(square => indexToMove(square, position.size))[0] ?? null,
+    winRate: best ? best.wins / best.visits : 0,
+    iterations: completed,
+    elapsedMs: performance.now() - start,
+    aborted: Boolean(signal?.aborted),
+    moves,
+  };
+}
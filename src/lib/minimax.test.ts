@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BoardState, CellState } from '@/types/othello';
+import { positionFromBoard } from './bitboard';
+import { createSearchContext, search, isFinalScore, scoreFinalPosition, FINAL_SCORE_SCALE } from './minimax';
+
+const CELLS: Record<string, CellState> = { B: 'black', W: 'white', _: 'empty' };
+
+const toBoard = (rows: string[]): BoardState => rows.map(row => Array.from(row, char => CELLS[char]));
+
+// White has no move; black wins every disc with c1 and f8.
+const PASSING = positionFromBoard(
+  toBoard(['BW______', '________', '________', '________', '________', '________', '________', '______WB'])
+);
+
+test('a forced pass is searched through to the exact final margin', () => {
+  const result = search(createSearchContext('white'), PASSING, 2, true, -Infinity, Infinity);
+  assert.equal(result.move, null);
+  assert.equal(result.score, -6 * FINAL_SCORE_SCALE);
+  assert.ok(isFinalScore(result.score));
+
+  // The pass does not use up depth: black's two moves fit in a depth of 2.
+  const black = search(createSearchContext('black'), PASSING, 2, true, -Infinity, Infinity);
+  assert.equal(black.score, 6 * FINAL_SCORE_SCALE);
+  assert.ok(black.move);
+});
+
+test('finished positions are scored by their margin under either rule', () => {
+  const finished = positionFromBoard(
+    toBoard(['BBB_____', '________', '________', '________', '________', '________', '________', '_______W'])
+  );
+  assert.equal(scoreFinalPosition(finished, 'black'), 2 * FINAL_SCORE_SCALE);
+  assert.equal(scoreFinalPosition(finished, 'black', 'misere'), -2 * FINAL_SCORE_SCALE);
+  const result = search(createSearchContext('white', { scoring: 'misere' }), finished, 3, true, -Infinity, Infinity);
+  assert.deepEqual(result, { score: 2 * FINAL_SCORE_SCALE, move: null });
+});
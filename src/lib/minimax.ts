@@ -1,58 +1,161 @@
-import type { BoardState, Player, Move } from '@/types/othello';
-import { getValidMoves, applyMove, getOpponent, getScore } from './othello';
-
-// An improved evaluation function that considers piece difference and corners.
-function evaluateBoard(board: BoardState, player: Player): number {
-  const score = getScore(board);
-  const opponent = getOpponent(player);
-  
-  // Base score is the difference in pieces
-  let finalScore = score[player] - score[opponent];
-
-  // Add a significant bonus for controlling corners
-  const corners = [
-    board[0][0],
-    board[0][7],
-    board[7][0],
-    board[7][7],
-  ];
-
-  const cornerBonus = 25;
-
-  corners.forEach(corner => {
-    if (corner === player) {
-        finalScore += cornerBonus;
-    } else if (corner === opponent) {
-        finalScore -= cornerBonus;
-    }
-  });
+import type { Player, Move, Position, Scoring } from '@/types/othello';
+import { getOpponent, scoreMargin } from './othello';
+import { getMovesMask, playMove, getPositionScore, bitsToSquares, squareBit, indexToMove } from './bitboard';
+import { hashPosition } from './zobrist';
+import { TranspositionTable, type BoundType } from './transposition-table';
+import { MoveOrderer } from './move-ordering';
+import { evaluate, misereEvaluation, DEFAULT_EVALUATION, type EvaluationConfig } from './evaluation';
+
+// Finished games are scored by their final disc margin times this factor,
+// which keeps any real result above every heuristic evaluation.
+export const FINAL_SCORE_SCALE = 100000;
+
+// How many nodes are searched between checks of the clock and abort signal.
+const STOP_CHECK_INTERVAL = 1024;
 
-  return finalScore;
+// Thrown from deep inside the search when it runs out of time or is cancelled.
+export class SearchAbortedError extends Error {
+  constructor() {
+    super('Search aborted');
+    this.name = 'SearchAbortedError';
+  }
 }
 
-export function minimax(
-  board: BoardState,
+export interface SearchContext {
+  player: Player; // The AI player, not the current player in recursion
+  nodes: number;
+  deadline: number;
+  signal?: AbortSignal;
+  // Scores are stored from the AI player's point of view under one evaluation,
+  // so a table must not be shared between searches for different players or evaluations.
+  tt: TranspositionTable;
+  ordering: MoveOrderer;
+  scoring: Scoring;
+  // Already inverted for misère scoring.
+  evaluation: EvaluationConfig;
+  // Searched first at the root, normally the best move of the previous iteration.
+  rootMoveHint?: number;
+}
+
+export function createSearchContext(
+  player: Player,
+  {
+    deadline = Infinity,
+    signal,
+    tt = new TranspositionTable(),
+    ordering = new MoveOrderer(),
+    scoring = 'standard',
+    evaluation = DEFAULT_EVALUATION,
+  }: Partial<Pick<SearchContext, 'deadline' | 'signal' | 'tt' | 'ordering' | 'scoring' | 'evaluation'>> = {}
+): SearchContext {
+  // Evaluations are written for standard scoring.
+  const searchEvaluation = scoring === 'misere' ? misereEvaluation(evaluation) : evaluation;
+  return { player, nodes: 0, deadline, signal, tt, ordering, scoring, evaluation: searchEvaluation };
+}
+
+export function scoreFinalPosition(position: Position, player: Player, scoring: Scoring = 'standard'): number {
+  return scoreMargin(getPositionScore(position), player, scoring) * FINAL_SCORE_SCALE;
+}
+
+export const isFinalScore = (score: number): boolean => Math.abs(score) >= FINAL_SCORE_SCALE;
+
+function checkStop(ctx: SearchContext) {
+  if (ctx.nodes % STOP_CHECK_INTERVAL === 0 && (performance.now() > ctx.deadline || ctx.signal?.aborted)) {
+    throw new SearchAbortedError();
+  }
+}
+
+// Scores each move with a reduced-depth search so the full search can try the
+// most promising ones first. Scores are from the side to move's point of view.
+function shallowSearchScores(
+  ctx: SearchContext,
+  position: Position,
+  currentPlayer: Player,
+  moves: number[],
   depth: number,
   isMaximizingPlayer: boolean,
-  player: Player, // The AI player, not the current player in recursion
-  alpha = -Infinity,
-  beta = Infinity
+  ply: number
+): Map<number, number> | undefined {
+  const { shallowSearchDepth, shallowSearchMinDepth } = ctx.ordering.config;
+  if (shallowSearchDepth <= 0 || depth < shallowSearchMinDepth || moves.length < 2) {
+    return undefined;
+  }
+  const scores = new Map<number, number>();
+  for (const move of moves) {
+    const child = playMove(position, currentPlayer, squareBit(move));
+    const { score } = search(ctx, child, shallowSearchDepth - 1, !isMaximizingPlayer, -Infinity, Infinity, ply + 1);
+    scores.set(move, isMaximizingPlayer ? score : -score);
+  }
+  return scores;
+}
+
+export function search(
+  ctx: SearchContext,
+  position: Position,
+  depth: number,
+  isMaximizingPlayer: boolean,
+  alpha: number,
+  beta: number,
+  ply = 0
 ): { score: number; move: Move | null } {
-  const currentPlayer = isMaximizingPlayer ? player : getOpponent(player);
-  const moves = getValidMoves(board, currentPlayer);
+  ctx.nodes++;
+  checkStop(ctx);
+
+  const currentPlayer = isMaximizingPlayer ? ctx.player : getOpponent(ctx.player);
+  const moves = bitsToSquares(getMovesMask(position, currentPlayer));
+
+  if (moves.length === 0) {
+    // The game only ends when neither side can move; otherwise this is a forced
+    // pass and the opponent's continuation is searched at the same depth.
+    if (!getMovesMask(position, getOpponent(currentPlayer))) {
+      return { score: scoreFinalPosition(position, ctx.player, ctx.scoring), move: null };
+    }
+    if (depth === 0) {
+      return { score: evaluate(position, ctx.player, currentPlayer, ctx.evaluation), move: null };
+    }
+    const { score } = search(ctx, position, depth, !isMaximizingPlayer, alpha, beta, ply + 1);
+    return { score, move: null };
+  }
 
-  // Base case: if depth is 0 or no valid moves, return board evaluation
-  if (depth === 0 || moves.length === 0) {
-    return { score: evaluateBoard(board, player), move: null };
+  // Base case: at the search horizon, return position evaluation
+  if (depth === 0) {
+    return { score: evaluate(position, ctx.player, currentPlayer, ctx.evaluation), move: null };
+  }
+
+  const hash = hashPosition(position, currentPlayer);
+  const entry = ctx.tt.probe(hash);
+  const alphaOrig = alpha;
+  const betaOrig = beta;
+
+  if (entry && entry.depth >= depth && ply > 0) {
+    if (entry.bound === 'exact') {
+      ctx.tt.recordCutoff();
+      return { score: entry.score, move: indexToMove(entry.bestMove, position.size) };
+    }
+    if (entry.bound === 'lower') alpha = Math.max(alpha, entry.score);
+    if (entry.bound === 'upper') beta = Math.min(beta, entry.score);
+    if (beta <= alpha) {
+      ctx.tt.recordCutoff();
+      return { score: entry.score, move: indexToMove(entry.bestMove, position.size) };
+    }
   }
 
-  let bestMove: Move | null = moves[0];
+  // The stored best move, or at the root the previous iteration's choice.
+  const hashMove = ply === 0 && ctx.rootMoveHint !== undefined ? ctx.rootMoveHint : entry?.bestMove;
+  const orderedMoves = ctx.ordering.orderMoves(
+    moves,
+    ply,
+    hashMove,
+    shallowSearchScores(ctx, position, currentPlayer, moves, depth, isMaximizingPlayer, ply)
+  );
+
+  let bestMove = orderedMoves[0];
   let bestValue = isMaximizingPlayer ? -Infinity : Infinity;
 
-  for (const move of moves) {
-    const newBoard = applyMove(board, currentPlayer, move.row, move.col);
+  for (const move of orderedMoves) {
+    const newPosition = playMove(position, currentPlayer, squareBit(move));
     // The next level of the tree is for the other player
-    const { score } = minimax(newBoard, depth - 1, !isMaximizingPlayer, player, alpha, beta);
+    const { score } = search(ctx, newPosition, depth - 1, !isMaximizingPlayer, alpha, beta, ply + 1);
 
     if (isMaximizingPlayer) {
       if (score > bestValue) {
@@ -69,9 +172,26 @@ export function minimax(
     }
 
     if (beta <= alpha) {
+      ctx.ordering.recordCutoff(move, ply, depth);
       break; // Alpha-beta pruning
     }
   }
 
-  return { score: bestValue, move: bestMove };
+  let bound: BoundType = 'exact';
+  if (bestValue <= alphaOrig) bound = 'upper';
+  else if (bestValue >= betaOrig) bound = 'lower';
+  ctx.tt.store(hash, { depth, score: bestValue, bound, bestMove });
+
+  return { score: bestValue, move: indexToMove(bestMove, position.size) };
+}
+
+export function minimax(
+  position: Position,
+  depth: number,
+  isMaximizingPlayer: boolean,
+  player: Player, // The AI player, not the current player in recursion
+  alpha = -Infinity,
+  beta = Infinity
+): { score: number; move: Move | null } {
+  return search(createSearchContext(player), position, depth, isMaximizingPlayer, alpha, beta);
 }
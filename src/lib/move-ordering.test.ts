@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MoveOrderer, DEFAULT_MOVE_ORDERING, NO_MOVE_ORDERING } from './move-ordering';
+import { FINAL_SCORE_SCALE } from './minimax';
+
+// Squares of the 8 x 8 board: a1 is a corner, b2 its X-square, d3 and c4 plain.
+const A1 = 0;
+const B2 = 9;
+const D3 = 19;
+const C4 = 26;
+
+test('static priors put corners first and X-squares last', () => {
+  const orderer = new MoveOrderer({ ...NO_MOVE_ORDERING, staticPriors: true });
+  const ordered = orderer.orderMoves([B2, D3, A1], 0);
+  assert.equal(ordered[0], A1);
+  assert.equal(ordered[2], B2);
+});
+
+test('the hash move is tried first, then killers', () => {
+  const orderer = new MoveOrderer(DEFAULT_MOVE_ORDERING);
+  orderer.recordCutoff(D3, 4, 3);
+  assert.deepEqual(orderer.orderMoves([A1, C4, D3], 4, C4).slice(0, 2), [C4, D3]);
+  // Killers belong to their ply.
+  assert.equal(orderer.orderMoves([A1, C4, D3], 5)[0], A1);
+});
+
+test('a solved shallow score does not outrank the hash move', () => {
+  const orderer = new MoveOrderer(DEFAULT_MOVE_ORDERING);
+  const shallowScores = new Map([
+    [A1, 64 * FINAL_SCORE_SCALE],
+    [C4, -64 * FINAL_SCORE_SCALE],
+    [D3, 20],
+  ]);
+  assert.deepEqual(orderer.orderMoves([A1, C4, D3], 0, C4, shallowScores), [C4, A1, D3]);
+});
@@ -0,0 +1,103 @@
+import { getSquareTable } from './evaluation';
+import { DEFAULT_BOARD_SIZE, MAX_BOARD_SIZE } from './bitboard';
+
+// Move ordering for the alpha-beta search. Moves are square indices; each
+// heuristic can be switched off so their effect on the node count can be measured.
+
+export interface MoveOrderingConfig {
+  // Try the transposition table's best move (or the previous iteration's choice at the root) first.
+  hashMove: boolean;
+  // Prefer corners and edges, avoid X- and C-squares.
+  staticPriors: boolean;
+  // Two quiet moves per ply that recently caused a cutoff.
+  killers: boolean;
+  // Moves that caused cutoffs anywhere in the tree, weighted by depth.
+  history: boolean;
+  // Depth of a presorting search run at interior nodes; 0 disables it.
+  shallowSearchDepth: number;
+  // Remaining depth a node needs before the presorting search pays for itself.
+  shallowSearchMinDepth: number;
+}
+
+export const DEFAULT_MOVE_ORDERING: MoveOrderingConfig = {
+  hashMove: true,
+  staticPriors: true,
+  killers: true,
+  history: true,
+  shallowSearchDepth: 0,
+  shallowSearchMinDepth: 5,
+};
+
+export const NO_MOVE_ORDERING: MoveOrderingConfig = {
+  hashMove: false,
+  staticPriors: false,
+  killers: false,
+  history: false,
+  shallowSearchDepth: 0,
+  shallowSearchMinDepth: 0,
+};
+
+
+// The longest game on the largest board.
+const MAX_PLY = MAX_BOARD_SIZE * MAX_BOARD_SIZE;
+const HASH_MOVE_BONUS = 1e9;
+const KILLER_BONUS = 1e7;
+const SHALLOW_SCORE_WEIGHT = 1e4;
+// Shallow scores are clamped to this before weighting. Solved scores, a disc
+// of margin worth FINAL_SCORE_SCALE, would otherwise outweigh the hash move.
+const SHALLOW_SCORE_LIMIT = 1e4;
+
+export class MoveOrderer {
+  readonly config: MoveOrderingConfig;
+  private readonly killers: Int16Array;
+  private readonly history: Float64Array;
+  // Static square values, used as priors.
+  private readonly priors: number[];
+
+  constructor(config: MoveOrderingConfig = DEFAULT_MOVE_ORDERING, size: number = DEFAULT_BOARD_SIZE) {
+    this.config = config;
+    this.priors = getSquareTable(size);
+    this.killers = new Int16Array(MAX_PLY * 2).fill(-1);
+    this.history = new Float64Array(this.priors.length);
+  }
+
+  // `shallowScores` are from the side to move's point of view: higher is better.
+  orderMoves(moves: number[], ply: number, hashMove?: number, shallowScores?: Map<number, number>): number[] {
+    const { config } = this;
+    const keys = new Map<number, number>();
+
+    for (const move of moves) {
+      let key = 0;
+      if (config.hashMove && move === hashMove) key += HASH_MOVE_BONUS;
+      if (config.killers && ply < MAX_PLY) {
+        if (this.killers[ply * 2] === move) key += KILLER_BONUS;
+        else if (this.killers[ply * 2 + 1] === move) key += KILLER_BONUS / 2;
+      }
+      if (shallowScores?.has(move)) {
+        const score = Math.max(-SHALLOW_SCORE_LIMIT, Math.min(SHALLOW_SCORE_LIMIT, shallowScores.get(move)!));
+        key += score * SHALLOW_SCORE_WEIGHT;
+      }
+      if (config.history) key += this.history[move];
+      if (config.staticPriors) key += this.priors[move];
+      keys.set(move, key);
+    }
+
+    return [...moves].sort((a, b) => keys.get(b)! - keys.get(a)!);
+  }
+
+  // Called when a move refutes its node, so it is tried early in sibling nodes.
+  recordCutoff(move: number, ply: number, depth: number) {
+    if (this.config.killers && ply < MAX_PLY && this.killers[ply * 2] !== move) {
+      this.killers[ply * 2 + 1] = this.killers[ply * 2];
+      this.killers[ply * 2] = move;
+    }
+    if (this.config.history) {
+      this.history[move] += depth * depth;
+    }
+  }
+
+  reset() {
+    this.killers.fill(-1);
+    this.history.fill(0);
+  }
+}
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInitialBoard } from './othello';
+import {
+  parseTranscript,
+  serializeTranscript,
+  replayTranscript,
+  validateTranscript,
+  parsePosition,
+  serializePosition,
+  validatePosition,
+  squareToMove,
+  moveToSquare,
+} from './notation';
+
+test('squares convert both ways, up to l12', () => {
+  assert.deepEqual(squareToMove('f5'), { row: 4, col: 5 });
+  assert.deepEqual(squareToMove('L12'), { row: 11, col: 11 });
+  assert.equal(squareToMove('m1'), null);
+  assert.equal(moveToSquare({ row: 9, col: 10 }), 'k10');
+});
+
+test('transcripts round-trip in every accepted spelling', () => {
+  const compact = 'f5d6c3d3c4';
+  assert.equal(serializeTranscript(parseTranscript(compact)), compact);
+  assert.equal(serializeTranscript(parseTranscript('1. f5 2. D6, c3; d3 c4')), compact);
+  assert.deepEqual(parseTranscript('f5 pass d6 -- PA'), [squareToMove('f5'), 'pass', squareToMove('d6'), 'pass', 'pass']);
+  assert.equal(serializeTranscript(parseTranscript('1.f5 2.d6 3. c3. d3. c4.')), compact);
+  assert.throws(() => parseTranscript('f5 z9'), /Unrecognized token/);
+});
+
+test('replaying rejects illegal moves and makes forced passes explicit', () => {
+  assert.throws(() => replayTranscript(parseTranscript('f5a1')), /Move 2: a1 is not a legal move for white/);
+  assert.throws(() => replayTranscript(['pass']), /cannot pass/);
+
+  // After c1 white cannot move, so black's f8 follows a pass.
+  const { board } = parsePosition('BW______/________/________/________/________/________/________/______WB B');
+  const replay = replayTranscript(parseTranscript('c1f8'), board, 'black');
+  assert.equal(serializeTranscript(replay.entries), 'c1PAf8');
+});
+
+test('validation reports errors instead of throwing', () => {
+  const valid = validateTranscript('f5d6');
+  assert.ok(valid.valid);
+  assert.equal(valid.valid && valid.currentPlayer, 'black');
+  assert.deepEqual(validateTranscript('f5f5'), { valid: false, error: 'Move 2: f5 is not a legal move for white.' });
+  assert.ok(validateTranscript('e4', 6).valid);
+});
+
+test('position strings round-trip on every board size', () => {
+  for (const size of [6, 8, 10, 12]) {
+    const setup = { board: createInitialBoard(size), sideToMove: 'white' as const };
+    assert.deepEqual(parsePosition(serializePosition(setup)), setup);
+  }
+  const text = '________/________/________/___WB___/___BW___/________/________/________ B';
+  assert.equal(serializePosition(parsePosition(text.toLowerCase().replace(/\//g, '\n'))), text);
+});
+
+test('malformed position strings are explained', () => {
+  assert.deepEqual(validatePosition('______/______ B'), {
+    valid: false,
+    error: 'Found 2 rows; boards have 6, 8, 10, 12 rows.',
+  });
+  assert.match((validatePosition('________ X') as { error: string }).error, /side to move/);
+  const badSquare = '________/________/________/___WB___/___BX___/________/________/________ B';
+  assert.match((validatePosition(badSquare) as { error: string }).error, /"X" at e5/);
+});
@@ -0,0 +1,161 @@
+import type { BoardState, CellState, Player, Move } from '@/types/othello';
+import { createInitialBoard, getValidMoves, applyMove, getOpponent, isValidMove } from './othello';
+import { DEFAULT_BOARD_SIZE, isBoardSize, BOARD_SIZES } from './bitboard';
+
+// Standard Othello notation: columns are lettered a-h from the left, rows are
+// numbered 1-8 from the top, so the opening move f5 is { row: 4, col: 5 }.
+// Larger boards continue the letters and numbers, up to l12.
+const COLUMN_LETTERS = 'abcdefghijkl';
+const PASS_TOKEN = 'PA';
+
+export type TranscriptEntry = Move | 'pass';
+
+export interface PositionSetup {
+  board: BoardState;
+  sideToMove: Player;
+}
+
+export interface TranscriptReplay {
+  board: BoardState;
+  currentPlayer: Player;
+  // The transcript with every forced pass made explicit.
+  entries: TranscriptEntry[];
+}
+
+export const columnLabel = (col: number): string => COLUMN_LETTERS[col];
+
+export const rowLabel = (row: number): string => `${row + 1}`;
+
+export const moveToSquare = (move: Move): string => `${columnLabel(move.col)}${rowLabel(move.row)}`;
+
+export function squareToMove(square: string): Move | null {
+  const match = /^([a-l])(1[0-2]|[1-9])$/i.exec(square.trim());
+  if (!match) {
+    return null;
+  }
+  return { row: Number(match[2]) - 1, col: COLUMN_LETTERS.indexOf(match[1].toLowerCase()) };
+}
+
+export const entryToString = (entry: TranscriptEntry): string => (entry === 'pass' ? PASS_TOKEN : moveToSquare(entry));
+
+// Accepts squares run together ("f5d6c3") or separated by whitespace,
+// punctuation or move numbers ("1. f5 2. d6"). Passes may be written as "PA",
+// "pass" or "--". Move numbers start a token, so "f5. d6" keeps its 5.
+export function parseTranscript(text: string): TranscriptEntry[] {
+  const compact = text.replace(/(?:^|\s)\d+\s*\.|[\s,;.]+/g, '');
+  const tokenPattern = /pass|pa|--|[a-l](?:1[0-2]|[1-9])/iy;
+  const entries: TranscriptEntry[] = [];
+
+  while (tokenPattern.lastIndex < compact.length) {
+    const start = tokenPattern.lastIndex;
+    const match = tokenPattern.exec(compact);
+    if (!match) {
+      throw new Error(`Unrecognized token "${compact.slice(start, start + 2)}" in transcript.`);
+    }
+    const token = match[0];
+    entries.push(/^(pass|pa|--)$/i.test(token) ? 'pass' : squareToMove(token)!);
+  }
+
+  return entries;
+}
+
+export function serializeTranscript(entries: TranscriptEntry[], { includePasses = true } = {}): string {
+  return entries
+    .filter(entry => includePasses || entry !== 'pass')
+    .map(entryToString)
+    .join('');
+}
+
+// Plays the transcript from the given position, inserting passes that the
+// transcript leaves implicit. Throws on the first illegal move or pass.
+export function replayTranscript(
+  entries: TranscriptEntry[],
+  board: BoardState = createInitialBoard(),
+  currentPlayer: Player = 'black'
+): TranscriptReplay {
+  const played: TranscriptEntry[] = [];
+
+  entries.forEach((entry, index) => {
+    const hasMoves = getValidMoves(board, currentPlayer).length > 0;
+
+    if (entry === 'pass') {
+      if (hasMoves) {
+        throw new Error(`Move ${index + 1}: ${currentPlayer} cannot pass while a legal move exists.`);
+      }
+      played.push('pass');
+      currentPlayer = getOpponent(currentPlayer);
+      return;
+    }
+
+    if (!hasMoves) {
+      played.push('pass');
+      currentPlayer = getOpponent(currentPlayer);
+    }
+
+    if (!isValidMove(board, currentPlayer, entry.row, entry.col)) {
+      throw new Error(`Move ${index + 1}: ${moveToSquare(entry)} is not a legal move for ${currentPlayer}.`);
+    }
+    board = applyMove(board, currentPlayer, entry.row, entry.col);
+    played.push(entry);
+    currentPlayer = getOpponent(currentPlayer);
+  });
+
+  return { board, currentPlayer, entries: played };
+}
+
+export function validateTranscript(
+  text: string,
+  size: number = DEFAULT_BOARD_SIZE
+): ({ valid: true } & TranscriptReplay) | { valid: false; error: string } {
+  try {
+    return { valid: true, ...replayTranscript(parseTranscript(text), createInitialBoard(size)) };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Position strings list the rows from the top, one character per square as in
+// boardToString (B black, W white, _ empty), separated by slashes or line
+// breaks, followed by the side to move:
+//   ________/________/________/___WB___/___BW___/________/________/________ B
+const CELL_CHARS: Record<string, CellState> = { B: 'black', W: 'white', _: 'empty' };
+const SIDE_CHARS: Record<string, Player> = { B: 'black', W: 'white' };
+
+export function serializePosition({ board, sideToMove }: PositionSetup): string {
+  const rows = board.map(row => row.map(cell => (cell === 'black' ? 'B' : cell === 'white' ? 'W' : '_')).join(''));
+  return `${rows.join('/')} ${sideToMove === 'black' ? 'B' : 'W'}`;
+}
+
+// Throws on anything that is not a square board of a supported size followed by a side to move.
+export function parsePosition(text: string): PositionSetup {
+  const tokens = text.trim().toUpperCase().split(/[\s/]+/).filter(Boolean);
+  const side = tokens.pop();
+  if (!side || !(side in SIDE_CHARS)) {
+    throw new Error('The position must end with the side to move, B or W.');
+  }
+  const size = tokens.length;
+  if (!isBoardSize(size)) {
+    throw new Error(`Found ${size} rows; boards have ${BOARD_SIZES.join(', ')} rows.`);
+  }
+  const board = tokens.map((row, r) => {
+    if (row.length !== size) {
+      throw new Error(`Row ${rowLabel(r)} has ${row.length} squares instead of ${size}.`);
+    }
+    return Array.from(row, (char, c) => {
+      const cell = CELL_CHARS[char];
+      if (!cell) {
+        throw new Error(`Unrecognized square "${char}" at ${columnLabel(c)}${rowLabel(r)}; use B, W or _.`);
+      }
+      return cell;
+    });
+  });
+  return { board, sideToMove: SIDE_CHARS[side] };
+}
+
+export function validatePosition(text: string): ({ valid: true } & PositionSetup) | { valid: false; error: string } {
+  try {
+    return { valid: true, ...parsePosition(text) };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInitialPosition, squareIndex, indexToMove } from './bitboard';
+import { parseTranscript, moveToSquare, serializeTranscript } from './notation';
+import { SYMMETRIES, transformSquare, transformPosition, inverseSymmetry } from './symmetry';
+import { identifyOpening, loadOpeningBook, lookupBookMoves, parseOpeningBook } from './opening-book';
+import { DEFAULT_OPENING_BOOK_TEXT } from './default-opening-book';
+
+// The line with every move mapped through the symmetry.
+const transformLine = (line: string, symmetry: number) =>
+  serializeTranscript(
+    parseTranscript(line).map(entry =>
+      entry === 'pass' ? entry : indexToMove(transformSquare(squareIndex(entry.row, entry.col, 8), symmetry, 8), 8)
+    )
+  );
+
+// The four symmetries that leave the standard start as it is; the other four swap its colors.
+const START = createInitialPosition(8);
+const START_SYMMETRIES = SYMMETRIES.filter(symmetry => transformPosition(START, symmetry).black === START.black);
+
+test('the symmetries of the start map f5 onto the other first moves', () => {
+  const f5 = squareIndex(4, 5, 8);
+  for (const symmetry of SYMMETRIES) {
+    assert.equal(transformSquare(transformSquare(f5, symmetry, 8), inverseSymmetry(symmetry), 8), f5);
+  }
+  assert.equal(START_SYMMETRIES.length, 4);
+  assert.deepEqual(START_SYMMETRIES.map(symmetry => transformLine('f5', symmetry)).sort(), ['c4', 'd3', 'e6', 'f5']);
+});
+
+test('a line written from f5 is found from every first move', () => {
+  const book = loadOpeningBook(DEFAULT_OPENING_BOOK_TEXT);
+  const firstMoves = lookupBookMoves(book, START, 'black');
+  assert.deepEqual(firstMoves.map(({ move }) => moveToSquare(move)).sort(), ['c4', 'd3', 'e6', 'f5']);
+  assert.ok(firstMoves.every(({ weight }) => weight === firstMoves[0].weight));
+
+  for (const symmetry of START_SYMMETRIES) {
+    const line = transformLine('f5d6c3d3c4', symmetry);
+    assert.equal(identifyOpening(book, parseTranscript(line)), 'Tiger', line);
+  }
+  // The Cow's unnamed third move keeps the name of the position before it.
+  assert.equal(identifyOpening(book, parseTranscript('e6f4e3')), 'Perpendicular Opening');
+});
+
+test('malformed book rows are rejected with their line number', () => {
+  assert.deepEqual(parseOpeningBook('# comment\n\nf5d6 3 Some Name\nf5f6'), [
+    { moves: parseTranscript('f5d6'), weight: 3, name: 'Some Name' },
+    { moves: parseTranscript('f5f6'), weight: 1, name: undefined },
+  ]);
+  assert.throws(() => parseOpeningBook('f5d6\nf5f6 heavy'), /^Error: Line 2: weight "heavy" is not a positive number\.$/);
+  assert.throws(() => parseOpeningBook('f5d6 0'), /Line 1: weight "0"/);
+  assert.throws(() => parseOpeningBook('\nf5z9 2'), /^Error: Line 2: Unrecognized token/);
+  assert.throws(() => loadOpeningBook('f5a1'), /move 2 is illegal/);
+  assert.throws(() => loadOpeningBook('f5PA'), /move 2 passes with a legal move available/);
+});
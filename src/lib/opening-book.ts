@@ -0,0 +1,183 @@
+import type { Player, Move, Position } from '@/types/othello';
+import { getOpponent } from './othello';
+import {
+  createInitialPosition,
+  getMovesMask,
+  playMove,
+  squareBit,
+  squareIndex,
+  indexToMove,
+  DEFAULT_BOARD_SIZE,
+} from './bitboard';
+import { canonicalPosition, transformSquare, inverseSymmetry } from './symmetry';
+import { parseTranscript, serializeTranscript, type TranscriptEntry } from './notation';
+
+// An opening book is a list of lines from the standard start, one per row of
+// text: the moves, an optional weight (1 if left out) and an optional name.
+//
+//   # Comments and blank lines are ignored.
+//   f5d6c3d3c4 30 Tiger
+//
+// Positions are stored under the symmetry that sorts first, so a line also
+// covers its mirrored and rotated forms: f5 d6 is the same opening as e6 f4.
+// A book holds lines for one board size and knows nothing on the others.
+
+export interface BookLine {
+  moves: TranscriptEntry[];
+  weight: number;
+  name?: string;
+}
+
+export interface BookMove {
+  move: Move;
+  weight: number;
+}
+
+interface BookNode {
+  // Weights of the moves out of the position, by square in the canonical orientation.
+  moves: Map<number, number>;
+  name?: string;
+}
+
+export interface OpeningBook {
+  size: number;
+  nodes: Map<string, BookNode>;
+}
+
+export function positionKey(position: Position, sideToMove: Player): string {
+  return `${sideToMove}:${position.black.toString(16)}:${position.white.toString(16)}`;
+}
+
+export function parseOpeningBook(text: string): BookLine[] {
+  const lines: BookLine[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/#.*/, '').trim();
+    if (!line) return;
+    const [moves, weight, ...name] = line.split(/\s+/);
+    const parsedWeight = weight === undefined ? 1 : Number(weight);
+    if (!Number.isFinite(parsedWeight) || parsedWeight <= 0) {
+      throw new Error(`Line ${index + 1}: weight "${weight}" is not a positive number.`);
+    }
+    try {
+      lines.push({ moves: parseTranscript(moves), weight: parsedWeight, name: name.join(' ') || undefined });
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return lines;
+}
+
+// Adds every position along each line to the book. Throws on the first line
+// that is not a legal game from the standard start.
+export function buildOpeningBook(lines: BookLine[], size: number = DEFAULT_BOARD_SIZE): OpeningBook {
+  const nodes = new Map<string, BookNode>();
+  const nodeFor = (position: Position, sideToMove: Player) => {
+    const canonical = canonicalPosition(position);
+    const key = positionKey(canonical.position, sideToMove);
+    let node = nodes.get(key);
+    if (!node) {
+      node = { moves: new Map() };
+      nodes.set(key, node);
+    }
+    return { node, symmetry: canonical.symmetries[0] };
+  };
+
+  for (const line of lines) {
+    let position = createInitialPosition(size);
+    let sideToMove: Player = 'black';
+    line.moves.forEach((entry, ply) => {
+      const moves = getMovesMask(position, sideToMove);
+      if (entry === 'pass') {
+        if (moves) {
+          throw new Error(`Book line ${serializeTranscript(line.moves)}: move ${ply + 1} passes with a legal move available.`);
+        }
+        sideToMove = getOpponent(sideToMove);
+        return;
+      }
+      const square = squareIndex(entry.row, entry.col, size);
+      if (!(moves & squareBit(square))) {
+        throw new Error(`Book line ${serializeTranscript(line.moves)}: move ${ply + 1} is illegal.`);
+      }
+      const { node, symmetry } = nodeFor(position, sideToMove);
+      const canonicalSquare = transformSquare(square, symmetry, size);
+      node.moves.set(canonicalSquare, (node.moves.get(canonicalSquare) ?? 0) + line.weight);
+      position = playMove(position, sideToMove, squareBit(square));
+      sideToMove = getOpponent(sideToMove);
+    });
+    if (line.name) {
+      nodeFor(position, sideToMove).node.name = line.name;
+    }
+  }
+
+  return { size, nodes };
+}
+
+export const loadOpeningBook = (text: string, size: number = DEFAULT_BOARD_SIZE): OpeningBook =>
+  buildOpeningBook(parseOpeningBook(text), size);
+
+function findNode(book: OpeningBook, position: Position, sideToMove: Player) {
+  if (position.size !== book.size) return null;
+  const canonical = canonicalPosition(position);
+  const node = book.nodes.get(positionKey(canonical.position, sideToMove));
+  return node ? { node, symmetries: canonical.symmetries } : null;
+}
+
+// The book moves in this position, heaviest first. A position with symmetries
+// of its own splits each move's weight evenly over its equivalent squares.
+export function lookupBookMoves(book: OpeningBook, position: Position, sideToMove: Player): BookMove[] {
+  const found = findNode(book, position, sideToMove);
+  if (!found) return [];
+  const weights = new Map<number, number>();
+  for (const [canonicalSquare, weight] of found.node.moves) {
+    for (const symmetry of found.symmetries) {
+      const square = transformSquare(canonicalSquare, inverseSymmetry(symmetry), position.size);
+      weights.set(square, (weights.get(square) ?? 0) + weight / found.symmetries.length);
+    }
+  }
+  return [...weights]
+    .map(([square, weight]) => ({ move: indexToMove(square, position.size), weight }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+// Picks a book move at random in proportion to its weight, or null when the
+// position is out of book.
+export function chooseBookMove(
+  book: OpeningBook,
+  position: Position,
+  sideToMove: Player,
+  random: () => number
+): Move | null {
+  const moves = lookupBookMoves(book, position, sideToMove);
+  const total = moves.reduce((sum, { weight }) => sum + weight, 0);
+  let pick = random() * total;
+  for (const { move, weight } of moves) {
+    pick -= weight;
+    if (pick < 0) return move;
+  }
+  return moves.length > 0 ? moves[moves.length - 1].move : null;
+}
+
+// The name of the last named book position reached by the moves, which are
+// played from the standard start of a board of `size`. Stops at the first
+// move that is illegal.
+export function identifyOpening(
+  book: OpeningBook,
+  transcript: TranscriptEntry[],
+  size: number = book.size
+): string | null {
+  let position = createInitialPosition(size);
+  let sideToMove: Player = 'black';
+  let name: string | null = null;
+  for (const entry of transcript) {
+    if (entry !== 'pass') {
+      const bit = squareBit(squareIndex(entry.row, entry.col, size));
+      if (!(getMovesMask(position, sideToMove) & bit)) break;
+      position = playMove(position, sideToMove, bit);
+    }
+    sideToMove = getOpponent(sideToMove);
+    const found = findNode(book, position, sideToMove);
+    if (!found) break;
+    name = found.node.name ?? name;
+  }
+  return name;
+}
@@ -0,0 +1,190 @@
+import type { Player, Move, Position } from '@/types/othello';
+import { getOpponent } from './othello';
+import {
+  createInitialPosition,
+  getMovesMask,
+  playMove,
+  squareBit,
+  squareIndex,
+  indexToMove,
+  DEFAULT_BOARD_SIZE,
+} from './bitboard';
+import { canonicalPosition, transformSquare, inverseSymmetry, type Symmetry } from './symmetry';
+import { positionKey } from './opening-book';
+import { parseTranscript, replayTranscript, serializeTranscript } from './notation';
+import type { WthorGameFile } from './wthor';
+
+// Statistics over a database of tournament games: for each position reached
+// in the first EXPLORER_MAX_PLY moves, how often each move was played and how
+// those games ended. Positions are keyed under the symmetry that sorts first,
+// as in the opening book, so games that open with d3 count towards f5.
+
+// Later positions are almost always unique to one game.
+export const EXPLORER_MAX_PLY = 20;
+
+// Every database game is played on the standard board to the end, with the
+// empty squares given to the winner, so black wins with more than half of them.
+const HALF_DISCS = (DEFAULT_BOARD_SIZE * DEFAULT_BOARD_SIZE) / 2;
+
+export interface DatabaseGame {
+  // Derived from the game itself, so importing a file twice adds nothing.
+  id: string;
+  year: number;
+  tournament: string;
+  black: string;
+  white: string;
+  blackScore: number;
+  theoreticalScore: number;
+  // The moves as a transcript without passes, e.g. "f5d6c3".
+  moves: string;
+}
+
+export interface MoveStats {
+  games: number;
+  blackWins: number;
+  draws: number;
+  // Summed over the games, for the average.
+  blackDiscs: number;
+}
+
+export interface PositionEntry {
+  key: string;
+  // By square in the canonical orientation.
+  moves: Record<number, MoveStats>;
+}
+
+export interface ExplorerMove {
+  move: Move;
+  // Shared evenly between equivalent squares when the position is symmetric.
+  games: number;
+  blackWins: number;
+  draws: number;
+  whiteWins: number;
+  averageBlackScore: number;
+}
+
+// Names the numbered players and tournaments of a WTHOR file, skipping games
+// whose moves do not replay from the standard start.
+export function databaseGamesFromWthor(
+  { header, games }: WthorGameFile,
+  players: string[] = [],
+  tournaments: string[] = []
+): { games: DatabaseGame[]; skipped: number } {
+  const converted: DatabaseGame[] = [];
+  let skipped = 0;
+  for (const game of games) {
+    try {
+      replayTranscript(game.moves);
+    } catch {
+      skipped++;
+      continue;
+    }
+    const moves = serializeTranscript(game.moves);
+    converted.push({
+      id: `${header.gameYear}:${game.tournament}:${game.black}:${game.white}:${moves}`,
+      year: header.gameYear,
+      tournament: tournaments[game.tournament] ?? `Tournament ${game.tournament}`,
+      black: players[game.black] ?? `Player ${game.black}`,
+      white: players[game.white] ?? `Player ${game.white}`,
+      blackScore: game.blackScore,
+      theoreticalScore: game.theoreticalScore,
+      moves,
+    });
+  }
+  return { games: converted, skipped };
+}
+
+export const explorerKey = (position: Position, sideToMove: Player): { key: string; symmetries: Symmetry[] } => {
+  const canonical = canonicalPosition(position);
+  return { key: positionKey(canonical.position, sideToMove), symmetries: canonical.symmetries };
+};
+
+function addGame(stats: MoveStats | undefined, blackScore: number): MoveStats {
+  const next = stats ?? { games: 0, blackWins: 0, draws: 0, blackDiscs: 0 };
+  next.games++;
+  if (blackScore > HALF_DISCS) next.blackWins++;
+  if (blackScore === HALF_DISCS) next.draws++;
+  next.blackDiscs += blackScore;
+  return next;
+}
+
+// The statistics of the given games alone, ready to be merged into a store.
+export function indexGames(games: DatabaseGame[], maxPly: number = EXPLORER_MAX_PLY): Map<string, PositionEntry> {
+  const entries = new Map<string, PositionEntry>();
+  for (const game of games) {
+    let position = createInitialPosition(DEFAULT_BOARD_SIZE);
+    let sideToMove: Player = 'black';
+    for (const entry of parseTranscript(game.moves).slice(0, maxPly)) {
+      if (entry === 'pass') continue;
+      // Database games leave passes out.
+      if (!getMovesMask(position, sideToMove)) {
+        sideToMove = getOpponent(sideToMove);
+      }
+      const { key, symmetries } = explorerKey(position, sideToMove);
+      let positionEntry = entries.get(key);
+      if (!positionEntry) {
+        positionEntry = { key, moves: {} };
+        entries.set(key, positionEntry);
+      }
+      const square = squareIndex(entry.row, entry.col, DEFAULT_BOARD_SIZE);
+      const canonicalSquare = transformSquare(square, symmetries[0], DEFAULT_BOARD_SIZE);
+      positionEntry.moves[canonicalSquare] = addGame(positionEntry.moves[canonicalSquare], game.blackScore);
+      position = playMove(position, sideToMove, squareBit(square));
+      sideToMove = getOpponent(sideToMove);
+    }
+  }
+  return entries;
+}
+
+export function mergePositionEntries(stored: PositionEntry | undefined, added: PositionEntry): PositionEntry {
+  if (!stored) return added;
+  const moves = { ...stored.moves };
+  for (const [square, stats] of Object.entries(added.moves)) {
+    const previous = moves[Number(square)];
+    moves[Number(square)] = previous
+      ? {
+          games: previous.games + stats.games,
+          blackWins: previous.blackWins + stats.blackWins,
+          draws: previous.draws + stats.draws,
+          blackDiscs: previous.blackDiscs + stats.blackDiscs,
+        }
+      : stats;
+  }
+  return { key: stored.key, moves };
+}
+
+// The database moves from the position, most played first, in its own
+// orientation. `symmetries` are the ones explorerKey returned for it.
+export function explorerMoves(entry: PositionEntry | undefined, symmetries: Symmetry[]): ExplorerMove[] {
+  if (!entry) return [];
+  const share = 1 / symmetries.length;
+  const moves = new Map<number, ExplorerMove>();
+  // Disc totals by square, averaged once every symmetry has added its share.
+  const blackDiscs = new Map<number, number>();
+  for (const [canonicalSquare, stats] of Object.entries(entry.moves)) {
+    for (const symmetry of symmetries) {
+      const square = transformSquare(Number(canonicalSquare), inverseSymmetry(symmetry), DEFAULT_BOARD_SIZE);
+      const move = moves.get(square) ?? {
+        move: indexToMove(square, DEFAULT_BOARD_SIZE),
+        games: 0,
+        blackWins: 0,
+        draws: 0,
+        whiteWins: 0,
+        averageBlackScore: 0,
+      };
+      move.games += stats.games * share;
+      move.blackWins += stats.blackWins * share;
+      move.draws += stats.draws * share;
+      move.whiteWins += (stats.games - stats.blackWins - stats.draws) * share;
+      blackDiscs.set(square, (blackDiscs.get(square) ?? 0) + stats.blackDiscs * share);
+      moves.set(square, move);
+    }
+  }
+  for (const [square, move] of moves) {
+    move.averageBlackScore = blackDiscs.get(square)! / move.games;
+  }
+  return [...moves.values()].sort((a, b) => b.games - a.games);
+}
+
+export const countGames = (entry: PositionEntry | undefined): number =>
+  entry ? Object.values(entry.moves).reduce((sum, { games }) => sum + games, 0) : 0;
@@ -1,29 +1,31 @@
-import type { BoardState, Player } from '@/types/othello';
+import type { BoardState, Player, Score, Scoring } from '@/types/othello';
+import { DEFAULT_BOARD_SIZE } from './bitboard';
 
-const BOARD_SIZE = 8;
 const DIRECTIONS = [
   [-1, -1], [-1, 0], [-1, 1],
   [0, -1],           [0, 1],
   [1, -1], [1, 0], [1, 1],
 ];
 
-export function createInitialBoard(): BoardState {
-  const board: BoardState = Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill('empty'));
-  board[3][3] = 'white';
-  board[3][4] = 'black';
-  board[4][3] = 'black';
-  board[4][4] = 'white';
+export function createInitialBoard(size: number = DEFAULT_BOARD_SIZE): BoardState {
+  const board: BoardState = Array(size).fill(null).map(() => Array(size).fill('empty'));
+  const low = size / 2 - 1;
+  const high = size / 2;
+  board[low][low] = 'white';
+  board[low][high] = 'black';
+  board[high][low] = 'black';
+  board[high][high] = 'white';
   return board;
 }
 
 export const getOpponent = (player: Player): Player => (player === 'black' ? 'white' : 'black');
 
-function isInsideBoard(row: number, col: number): boolean {
-  return row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE;
+function isInsideBoard(board: BoardState, row: number, col: number): boolean {
+  return row >= 0 && row < board.length && col >= 0 && col < board.length;
 }
 
-function getFlipsForMove(board: BoardState, player: Player, row: number, col: number): {row: number, col: number}[] {
-    if (!isInsideBoard(row, col) || board[row][col] !== 'empty') {
+export function getFlipsForMove(board: BoardState, player: Player, row: number, col: number): {row: number, col: number}[] {
+    if (!isInsideBoard(board, row, col) || board[row][col] !== 'empty') {
       return [];
     }
   
@@ -35,13 +37,13 @@ function getFlipsForMove(board: BoardState, player: Player, row: number, col: nu
       let c = col + dc;
       const potentialFlips: {row: number, col: number}[] = [];
   
-      while (isInsideBoard(r, c) && board[r][c] === opponent) {
+      while (isInsideBoard(board, r, c) && board[r][c] === opponent) {
         potentialFlips.push({ row: r, col: c });
         r += dr;
         c += dc;
       }
   
-      if (isInsideBoard(r, c) && board[r][c] === player && potentialFlips.length > 0) {
+      if (isInsideBoard(board, r, c) && board[r][c] === player && potentialFlips.length > 0) {
         tilesToFlip.push(...potentialFlips);
       }
     }
@@ -56,8 +58,8 @@ export function isValidMove(board: BoardState, player: Player, row: number, col:
 
 export function getValidMoves(board: BoardState, player: Player): {row: number, col: number}[] {
   const validMoves: {row: number, col: number}[] = [];
-  for (let r = 0; r < BOARD_SIZE; r++) {
-    for (let c = 0; c < BOARD_SIZE; c++) {
+  for (let r = 0; r < board.length; r++) {
+    for (let c = 0; c < board.length; c++) {
       if (isValidMove(board, player, r, c)) {
         validMoves.push({ row: r, col: c });
       }
@@ -96,6 +98,17 @@ export function getScore(board: BoardState): { black: number; white: number } {
   return { black, white };
 }
 
+// The final disc count as a margin for `player`, positive when `player` wins under `scoring`.
+export function scoreMargin(score: Score, player: Player, scoring: Scoring = 'standard'): number {
+  const margin = score[player] - score[getOpponent(player)];
+  return scoring === 'misere' ? -margin : margin;
+}
+
+export function getWinner(score: Score, scoring: Scoring = 'standard'): Player | 'draw' {
+  const margin = scoreMargin(score, 'black', scoring);
+  return margin > 0 ? 'black' : margin < 0 ? 'white' : 'draw';
+}
+
 export function boardToString(board: BoardState): string {
   return board.map(row => 
     row.map(cell => {
@@ -0,0 +1,20 @@
+// mulberry32: a small seeded generator returning unsigned 32-bit integers.
+export function createRandomUint32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+}
+
+// Uniform numbers in [0, 1), reproducible when a seed is given.
+export function createRandom(seed?: number): () => number {
+  if (seed === undefined) {
+    return Math.random;
+  }
+  const next = createRandomUint32(seed);
+  return () => next() / 2 ** 32;
+}
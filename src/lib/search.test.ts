@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createInitialPosition } from './bitboard';
+import { iterativeDeepening, type IterationReport } from './search';
+
+test('an aborted search returns the last iteration that finished', async () => {
+  const controller = new AbortController();
+  const reports: IterationReport[] = [];
+  const result = await iterativeDeepening(
+    createInitialPosition(8),
+    'black',
+    { timeLimitMs: 60000, endgameEmpties: 0, signal: controller.signal },
+    report => {
+      reports.push(report);
+      if (report.depth === 3) controller.abort();
+    }
+  );
+  assert.equal(result.aborted, true);
+  assert.equal(result.depth, 3);
+  assert.deepEqual(reports.map(({ depth }) => depth), [1, 2, 3]);
+  assert.deepEqual(result.move, reports[2].move);
+  assert.equal(result.score, reports[2].score);
+  assert.deepEqual(result.pv[0], result.move);
+});
+
+test('a search stopped mid-iteration keeps the previous result', async () => {
+  const controller = new AbortController();
+  let last: IterationReport | undefined;
+  const timer = setTimeout(() => controller.abort(), 200);
+  const result = await iterativeDeepening(
+    createInitialPosition(8),
+    'black',
+    { timeLimitMs: 60000, endgameEmpties: 0, signal: controller.signal },
+    report => (last = report)
+  );
+  clearTimeout(timer);
+  assert.equal(result.aborted, true);
+  assert.ok(last && result.depth === last.depth);
+  assert.deepEqual(result.move, last?.move);
+});
+
+test('the time budget ends the search with a legal move', async () => {
+  const result = await iterativeDeepening(createInitialPosition(8), 'black', { timeLimitMs: 50, endgameEmpties: 0 });
+  assert.equal(result.aborted, false);
+  assert.ok(result.depth >= 1);
+  assert.ok(result.move);
+  assert.ok(result.elapsedMs < 1000);
+});
@@ -0,0 +1,181 @@
+import type { Player, Move, Position, Scoring } from '@/types/othello';
+import { getOpponent } from './othello';
+import {
+  getMovesMask,
+  playMove,
+  bitsToMoves,
+  emptySquares,
+  popCount,
+  squareIndex,
+  squareBit,
+  indexToMove,
+} from './bitboard';
+import { createSearchContext, search, SearchAbortedError, FINAL_SCORE_SCALE } from './minimax';
+import { solveEndgame, DEFAULT_ENDGAME_EMPTIES } from './endgame';
+import { DEFAULT_EVALUATION, type EvaluationConfig } from './evaluation';
+import { TranspositionTable, type TTStats } from './transposition-table';
+import { MoveOrderer, DEFAULT_MOVE_ORDERING, type MoveOrderingConfig } from './move-ordering';
+import { hashPosition } from './zobrist';
+import type { TranscriptEntry } from './notation';
+
+export interface SearchLimits {
+  // Wall-clock budget for the whole search, in milliseconds.
+  timeLimitMs: number;
+  maxDepth?: number;
+  signal?: AbortSignal;
+  // Reused across the iterations of one search; a fresh table is made if omitted.
+  tt?: TranspositionTable;
+  ordering?: MoveOrderingConfig;
+  // With this many empties or fewer the position is solved exactly instead; 0 disables the solver.
+  endgameEmpties?: number;
+  // Written for standard scoring; misère searches invert it.
+  evaluation?: EvaluationConfig;
+  scoring?: Scoring;
+}
+
+export interface SearchResult {
+  move: Move | null;
+  score: number;
+  // The expected continuation, starting with `move`.
+  pv: TranscriptEntry[];
+  // Depth of the last iteration that finished; 0 if none did.
+  depth: number;
+  nodes: number;
+  elapsedMs: number;
+  // True when the search was cut short by the abort signal rather than the clock.
+  aborted: boolean;
+  // True when the move comes from the exact endgame solver.
+  solved: boolean;
+  tt: TTStats;
+}
+
+export interface IterationReport {
+  depth: number;
+  move: Move | null;
+  score: number;
+  nodes: number;
+  elapsedMs: number;
+}
+
+// Lets timers and abort events run between iterations.
+export const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Follows best moves stored in the table from the given position, recording
+// forced passes, until the table runs out or the line reaches `maxLength` moves.
+export function extractPrincipalVariation(
+  tt: TranspositionTable,
+  position: Position,
+  sideToMove: Player,
+  maxLength: number
+): TranscriptEntry[] {
+  const pv: TranscriptEntry[] = [];
+  let moves = 0;
+  while (moves < maxLength) {
+    const legal = getMovesMask(position, sideToMove);
+    if (!legal) {
+      if (!getMovesMask(position, getOpponent(sideToMove))) break;
+      pv.push('pass');
+      sideToMove = getOpponent(sideToMove);
+      continue;
+    }
+    const entry = tt.peek(hashPosition(position, sideToMove));
+    if (!entry || entry.bestMove < 0 || !(legal & squareBit(entry.bestMove))) break;
+    pv.push(indexToMove(entry.bestMove, position.size));
+    position = playMove(position, sideToMove, squareBit(entry.bestMove));
+    sideToMove = getOpponent(sideToMove);
+    moves++;
+  }
+  return pv;
+}
+
+// Searches one ply deeper at a time until the budget runs out, the signal
+// fires or the whole game tree fits in the depth. The result is always the
+// best move of the last iteration that completed.
+export async function iterativeDeepening(
+  position: Position,
+  player: Player,
+  {
+    timeLimitMs,
+    maxDepth = Infinity,
+    signal,
+    tt = new TranspositionTable(),
+    ordering = DEFAULT_MOVE_ORDERING,
+    endgameEmpties = DEFAULT_ENDGAME_EMPTIES,
+    evaluation = DEFAULT_EVALUATION,
+    scoring = 'standard',
+  }: SearchLimits,
+  onIteration?: (report: IterationReport) => void
+): Promise<SearchResult> {
+  const start = performance.now();
+  const ctx = createSearchContext(player, {
+    deadline: start + timeLimitMs,
+    signal,
+    tt,
+    ordering: new MoveOrderer(ordering, position.size),
+    scoring,
+    evaluation,
+  });
+  const legalMoves = bitsToMoves(getMovesMask(position, player), position.size);
+  const empties = popCount(emptySquares(position));
+  const depthLimit = Math.min(maxDepth, empties);
+
+  // Until an iteration finishes, fall back to the first legal move.
+  const result: SearchResult = {
+    move: legalMoves[0] ?? null,
+    score: 0,
+    pv: legalMoves.slice(0, 1),
+    depth: 0,
+    nodes: 0,
+    elapsedMs: 0,
+    aborted: false,
+    solved: false,
+    tt: tt.getStats(),
+  };
+
+  // Give the solver half the budget; if it cannot finish, search normally with the rest.
+  if (empties <= endgameEmpties && legalMoves.length > 0) {
+    try {
+      const solved = solveEndgame(position, player, { scoring, deadline: start + timeLimitMs / 2, signal });
+      return {
+        ...result,
+        move: solved.move,
+        score: solved.score * FINAL_SCORE_SCALE,
+        pv: solved.pv,
+        depth: empties,
+        nodes: solved.nodes,
+        elapsedMs: performance.now() - start,
+        solved: true,
+      };
+    } catch (error) {
+      if (!(error instanceof SearchAbortedError)) {
+        throw error;
+      }
+    }
+  }
+
+  for (let depth = 1; depth <= depthLimit && legalMoves.length > 1; depth++) {
+    await yieldToEventLoop();
+    if (signal?.aborted || performance.now() > ctx.deadline) {
+      break;
+    }
+
+    try {
+      const { move, score } = search(ctx, position, depth, true, -Infinity, Infinity);
+      const pv = extractPrincipalVariation(tt, position, player, depth);
+      Object.assign(result, { move, score, pv, depth });
+      ctx.rootMoveHint = move ? squareIndex(move.row, move.col, position.size) : undefined;
+      onIteration?.({ depth, move, score, nodes: ctx.nodes, elapsedMs: performance.now() - start });
+    } catch (error) {
+      if (!(error instanceof SearchAbortedError)) {
+        throw error;
+      }
+      break;
+    }
+  }
+
+  result.aborted = Boolean(signal?.aborted);
+  result.nodes = ctx.nodes;
+  result.elapsedMs = performance.now() - start;
+  result.tt = tt.getStats();
+  return result;
+}
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BoardState, CellState } from '@/types/othello';
+import { moveToSquare } from './notation';
+import { getStableSquares } from './stability';
+
+const CELLS: Record<string, CellState> = { B: 'black', W: 'white', _: 'empty' };
+
+const toBoard = (rows: string[]): BoardState => rows.map(row => Array.from(row, char => CELLS[char]));
+
+function stableSquares(rows: string[]) {
+  const { black, white } = getStableSquares(toBoard(rows));
+  return { black: black.map(moveToSquare), white: white.map(moveToSquare) };
+}
+
+test('discs anchored to a filled corner are stable', () => {
+  const stable = stableSquares([
+    'BBBW____',
+    'B_______',
+    '________',
+    '___WB___',
+    '___BW___',
+    '________',
+    '________',
+    '________',
+  ]);
+  assert.deepEqual(stable.black, ['a1', 'b1', 'c1', 'a2']);
+  // d1 can still be outflanked from e1.
+  assert.deepEqual(stable.white, []);
+});
+
+test('a disc on an edge with empty squares either side is not stable', () => {
+  const stable = stableSquares([
+    '____W___',
+    '____B___',
+    '________',
+    '___WB___',
+    '___BW___',
+    '________',
+    '________',
+    '_______B',
+  ]);
+  assert.deepEqual(stable.white, []);
+  assert.deepEqual(stable.black, ['h8']);
+});
+
+test('every disc on a full board is stable', () => {
+  const rows = Array.from({ length: 8 }, (_, r) => Array.from({ length: 8 }, (_, c) => ((r + c) % 2 ? 'B' : 'W')).join(''));
+  const stable = stableSquares(rows);
+  assert.equal(stable.black.length, 32);
+  assert.equal(stable.white.length, 32);
+});
@@ -0,0 +1,92 @@
+import type { BoardState, Move, Position, Bitboard } from '@/types/othello';
+import {
+  positionFromBoard,
+  bitsToMoves,
+  shiftToward,
+  squareBit,
+  squareIndex,
+  emptySquares,
+  type DirectionName,
+} from './bitboard';
+
+// A disc is stable when, along each of the four lines through it, it cannot be
+// outflanked: the line is already full, or it touches the board edge or a
+// stable disc of its own color on that line.
+interface Axis {
+  directions: [DirectionName, DirectionName];
+  lines: Bitboard[];
+  edges: Bitboard;
+}
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i);
+
+function createAxes(size: number): Axis[] {
+  const lineMask = (squares: [number, number][]): Bitboard =>
+    squares
+      .filter(([r, c]) => r >= 0 && r < size && c >= 0 && c < size)
+      .reduce((mask, [r, c]) => mask | squareBit(squareIndex(r, c, size)), BigInt(0));
+  const diagonalCount = size * 2 - 1;
+
+  const firstRow = lineMask(range(size).map(c => [0, c]));
+  const lastRow = lineMask(range(size).map(c => [size - 1, c]));
+  const firstCol = lineMask(range(size).map(r => [r, 0]));
+  const lastCol = lineMask(range(size).map(r => [r, size - 1]));
+  const border = firstRow | lastRow | firstCol | lastCol;
+
+  return [
+    {
+      directions: ['east', 'west'],
+      lines: range(size).map(r => lineMask(range(size).map(c => [r, c]))),
+      edges: firstCol | lastCol,
+    },
+    {
+      directions: ['north', 'south'],
+      lines: range(size).map(c => lineMask(range(size).map(r => [r, c]))),
+      edges: firstRow | lastRow,
+    },
+    {
+      directions: ['northWest', 'southEast'],
+      lines: range(diagonalCount).map(d => lineMask(range(size).map(r => [r, r - d + size - 1]))),
+      edges: border,
+    },
+    {
+      directions: ['northEast', 'southWest'],
+      lines: range(diagonalCount).map(d => lineMask(range(size).map(r => [r, d - r]))),
+      edges: border,
+    },
+  ];
+}
+
+// Indexed by board size and built on first use.
+const AXES: Axis[][] = [];
+
+function stableFor(discs: Bitboard, axes: Axis[], filledLines: Bitboard[], size: number): Bitboard {
+  let stable = BigInt(0);
+  while (true) {
+    let next = discs;
+    axes.forEach((axis, i) => {
+      const [forward, backward] = axis.directions;
+      next &= filledLines[i] | axis.edges | shiftToward(stable, forward, size) | shiftToward(stable, backward, size);
+    });
+    if (next === stable) {
+      return stable;
+    }
+    stable = next;
+  }
+}
+
+export function getStableDiscs(position: Position): { black: Bitboard; white: Bitboard } {
+  const { size } = position;
+  const axes = (AXES[size] ??= createAxes(size));
+  const empty = emptySquares(position);
+  const filledLines = axes.map(axis => axis.lines.reduce((mask, line) => (line & empty ? mask : mask | line), BigInt(0)));
+  return {
+    black: stableFor(position.black, axes, filledLines, size),
+    white: stableFor(position.white, axes, filledLines, size),
+  };
+}
+
+export function getStableSquares(board: BoardState): { black: Move[]; white: Move[] } {
+  const { black, white } = getStableDiscs(positionFromBoard(board));
+  return { black: bitsToMoves(black, board.length), white: bitsToMoves(white, board.length) };
+}
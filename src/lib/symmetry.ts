@@ -0,0 +1,79 @@
+import type { Bitboard, Position } from '@/types/othello';
+import { squareIndex, squareBit, bitsToSquares, DEFAULT_BOARD_SIZE } from './bitboard';
+
+// The eight symmetries of the board: a symmetry s mirrors the columns when
+// bit 2 is set, then rotates a quarter turn clockwise (s & 3) times.
+export type Symmetry = number;
+
+export const SYMMETRIES: Symmetry[] = [0, 1, 2, 3, 4, 5, 6, 7];
+
+function mapSquare(index: number, symmetry: Symmetry, size: number): number {
+  const last = size - 1;
+  let row = Math.floor(index / size);
+  let col = index % size;
+  if (symmetry & 4) col = last - col;
+  for (let turn = 0; turn < (symmetry & 3); turn++) {
+    [row, col] = [col, last - row];
+  }
+  return squareIndex(row, col, size);
+}
+
+// For each board size, the image of every square under each symmetry.
+const SQUARE_MAPS: number[][][] = [];
+
+function squareMaps(size: number): number[][] {
+  return (SQUARE_MAPS[size] ??= SYMMETRIES.map(symmetry =>
+    Array.from({ length: size * size }, (_, index) => mapSquare(index, symmetry, size))
+  ));
+}
+
+// The symmetries form the same group on every board size.
+const INVERSES = SYMMETRIES.map(symmetry => {
+  const maps = squareMaps(DEFAULT_BOARD_SIZE);
+  return SYMMETRIES.find(other => maps[symmetry].every((image, index) => maps[other][image] === index))!;
+});
+
+export const transformSquare = (index: number, symmetry: Symmetry, size: number): number =>
+  squareMaps(size)[symmetry][index];
+
+export const inverseSymmetry = (symmetry: Symmetry): Symmetry => INVERSES[symmetry];
+
+export function transformBits(bits: Bitboard, symmetry: Symmetry, size: number): Bitboard {
+  if (symmetry === 0) return bits;
+  const map = squareMaps(size)[symmetry];
+  let result = BigInt(0);
+  for (const index of bitsToSquares(bits)) {
+    result |= squareBit(map[index]);
+  }
+  return result;
+}
+
+export const transformPosition = (position: Position, symmetry: Symmetry): Position => ({
+  black: transformBits(position.black, symmetry, position.size),
+  white: transformBits(position.white, symmetry, position.size),
+  size: position.size,
+});
+
+function comparePositions(a: Position, b: Position): number {
+  if (a.black !== b.black) return a.black < b.black ? -1 : 1;
+  if (a.white !== b.white) return a.white < b.white ? -1 : 1;
+  return 0;
+}
+
+// The image of the position that sorts first, and every symmetry that maps
+// the position onto it (more than one when the position is itself symmetric).
+export function canonicalPosition(position: Position): { position: Position; symmetries: Symmetry[] } {
+  let best = position;
+  let symmetries: Symmetry[] = [0];
+  for (const symmetry of SYMMETRIES.slice(1)) {
+    const image = transformPosition(position, symmetry);
+    const order = comparePositions(image, best);
+    if (order < 0) {
+      best = image;
+      symmetries = [symmetry];
+    } else if (order === 0) {
+      symmetries.push(symmetry);
+    }
+  }
+  return { position: best, symmetries };
+}
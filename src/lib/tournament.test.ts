@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeStandings, getPairings, runTournament, ELO_BASE, type TournamentGame } from './tournament';
+
+function results(black: string, white: string, winners: TournamentGame['winner'][]): TournamentGame[] {
+  return winners.map(winner => ({ black, white, winner, blackDiscs: 0, whiteDiscs: 0, transcript: '' }));
+}
+
+const width = ({ eloLow, eloHigh }: { eloLow: number; eloHigh: number }) => eloHigh - eloLow;
+
+test('a lopsided result rates the winner above the loser', () => {
+  const games = [
+    ...results('strong', 'weak', ['black', 'black', 'black', 'draw']),
+    ...results('weak', 'strong', ['white', 'white', 'white', 'black']),
+  ];
+  const [first, second] = computeStandings(['weak', 'strong'], games);
+  assert.equal(first.name, 'strong');
+  assert.deepEqual([first.wins, first.losses, first.draws, first.score], [6, 1, 1, 6.5 / 8]);
+  assert.ok(first.elo > ELO_BASE && second.elo < ELO_BASE);
+  // Ratings are centred on the base.
+  assert.ok(Math.abs(first.elo + second.elo - 2 * ELO_BASE) <= 1);
+});
+
+test('the confidence interval narrows as games are added', () => {
+  const widths = [2, 8, 32].map(pairs => {
+    const games = Array.from({ length: pairs }, () => [...results('a', 'b', ['black']), ...results('b', 'a', ['draw'])]).flat();
+    return width(computeStandings(['a', 'b'], games)[0]);
+  });
+  assert.ok(widths[0] > widths[1] && widths[1] > widths[2], `widths ${widths.join(', ')}`);
+
+  const [unplayed] = computeStandings(['a', 'b'], []);
+  assert.equal(unplayed.elo, ELO_BASE);
+  assert.equal(width(unplayed), Infinity);
+});
+
+test('each pairing plays from the same opening with colors swapped', async () => {
+  const entrants = ['first', 'second', 'third'].map((name, i) => ({
+    name,
+    engine: { id: 'random' as const, options: { seed: i } },
+    timeLimitMs: 100,
+  }));
+  assert.deepEqual(getPairings({ format: 'gauntlet', entrants }), [[0, 1], [0, 2]]);
+
+  const report = await runTournament({
+    name: 'test',
+    format: 'round-robin',
+    entrants,
+    gamesPerPairing: 4,
+    randomOpeningPlies: 4,
+    seed: 5,
+  });
+  assert.equal(report.games.length, 12);
+  for (let i = 0; i < report.games.length; i += 2) {
+    const [game, rematch] = report.games.slice(i, i + 2);
+    assert.deepEqual([rematch.black, rematch.white], [game.white, game.black]);
+    assert.equal(rematch.transcript.slice(0, 8), game.transcript.slice(0, 8));
+  }
+  assert.deepEqual(report.standings.map(standing => standing.games), [8, 8, 8]);
+});
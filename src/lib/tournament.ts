@@ -0,0 +1,235 @@
+import type { Player } from '@/types/othello';
+import { createEngine, type EngineSpec } from './engine';
+import { randomOpening, createStandardOpening, playGame } from './match';
+import { serializeTranscript } from './notation';
+import { yieldToEventLoop } from './search';
+import { createRandom } from './random';
+import { toWinRateSeries, type WinRatePoint, type Outcome } from './win-rate';
+
+// Matches between engine configurations with Elo ratings for the results.
+
+export interface TournamentEntrant {
+  name: string;
+  engine: EngineSpec;
+  // Budget for each move.
+  timeLimitMs: number;
+}
+
+// 'round-robin' pairs every entrant with every other one; 'gauntlet' pairs the
+// first entrant with each of the others.
+export type TournamentFormat = 'round-robin' | 'gauntlet';
+
+export interface TournamentConfig {
+  name: string;
+  format: TournamentFormat;
+  entrants: TournamentEntrant[];
+  // Games per pairing, played in pairs from the same opening with colors swapped.
+  gamesPerPairing: number;
+  // Random moves before the engines take over; 0 starts every game from the standard position.
+  randomOpeningPlies: number;
+  seed: number;
+}
+
+export interface TournamentGame {
+  black: string;
+  white: string;
+  winner: Player | 'draw';
+  blackDiscs: number;
+  whiteDiscs: number;
+  transcript: string;
+}
+
+export interface TournamentStanding {
+  name: string;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  // Wins plus half the draws, over games played.
+  score: number;
+  elo: number;
+  // 95% confidence interval of the rating.
+  eloLow: number;
+  eloHigh: number;
+}
+
+export interface TournamentReport {
+  config: TournamentConfig;
+  startedAt: string;
+  finishedAt: string;
+  // True when the signal stopped the tournament before every game was played.
+  aborted: boolean;
+  games: TournamentGame[];
+  // Best rated first.
+  standings: TournamentStanding[];
+}
+
+export interface TournamentOptions {
+  signal?: AbortSignal;
+  onGame?: (game: TournamentGame, played: number, total: number) => void;
+}
+
+// Ratings are relative, so they are centred on this value.
+export const ELO_BASE = 1500;
+
+const ELO_PER_NATURAL_LOG = 400 / Math.LN10;
+const Z_95 = 1.96;
+const RATING_ITERATIONS = 200;
+// Every pair that met is credited with this many extra draws, which keeps an
+// entrant that never won or never lost at a finite rating.
+const PRIOR_DRAWS = 1;
+
+export function getPairings(config: Pick<TournamentConfig, 'format' | 'entrants'>): [number, number][] {
+  const count = config.entrants.length;
+  const pairings: [number, number][] = [];
+  for (let a = 0; a < count; a++) {
+    for (let b = a + 1; b < count; b++) {
+      if (config.format === 'round-robin' || a === 0) {
+        pairings.push([a, b]);
+      }
+    }
+  }
+  return pairings;
+}
+
+// Fits Bradley-Terry strengths to the results by minorization-maximization and
+// converts them to Elo, with a confidence interval from each entrant's Fisher
+// information with the other ratings held fixed.
+export function computeStandings(entrants: string[], games: TournamentGame[]): TournamentStanding[] {
+  const count = entrants.length;
+  const index = new Map(entrants.map((name, i) => [name, i]));
+  const played = Array.from({ length: count }, () => new Array<number>(count).fill(0));
+  const points = Array.from({ length: count }, () => new Array<number>(count).fill(0));
+  const records = entrants.map(() => ({ wins: 0, losses: 0, draws: 0 }));
+
+  for (const game of games) {
+    const black = index.get(game.black);
+    const white = index.get(game.white);
+    if (black === undefined || white === undefined) continue;
+    played[black][white]++;
+    played[white][black]++;
+    const blackPoints = game.winner === 'black' ? 1 : game.winner === 'draw' ? 0.5 : 0;
+    points[black][white] += blackPoints;
+    points[white][black] += 1 - blackPoints;
+    if (game.winner === 'draw') {
+      records[black].draws++;
+      records[white].draws++;
+    } else {
+      const [winner, loser] = game.winner === 'black' ? [black, white] : [white, black];
+      records[winner].wins++;
+      records[loser].losses++;
+    }
+  }
+
+  // The prior draws, added to every pairing that was played.
+  const n = played.map(row => row.map(games => (games > 0 ? games + PRIOR_DRAWS : 0)));
+  const w = points.map((row, i) => row.map((p, j) => (played[i][j] > 0 ? p + PRIOR_DRAWS / 2 : 0)));
+
+  let strength = new Array<number>(count).fill(1);
+  for (let iteration = 0; iteration < RATING_ITERATIONS; iteration++) {
+    strength = strength.map((s, i) => {
+      let won = 0;
+      let expected = 0;
+      for (let j = 0; j < count; j++) {
+        if (n[i][j] === 0) continue;
+        won += w[i][j];
+        expected += n[i][j] / (s + strength[j]);
+      }
+      return expected > 0 ? won / expected : s;
+    });
+    // Strengths are only defined up to a common factor; fix their geometric mean at 1.
+    const meanLog = strength.reduce((sum, s) => sum + Math.log(s), 0) / count;
+    strength = strength.map(s => s / Math.exp(meanLog));
+  }
+
+  return entrants
+    .map((name, i) => {
+      let information = 0;
+      for (let j = 0; j < count; j++) {
+        if (n[i][j] === 0) continue;
+        const p = strength[i] / (strength[i] + strength[j]);
+        information += n[i][j] * p * (1 - p);
+      }
+      const elo = ELO_BASE + ELO_PER_NATURAL_LOG * Math.log(strength[i]);
+      const margin = information > 0 ? (Z_95 * ELO_PER_NATURAL_LOG) / Math.sqrt(information) : Infinity;
+      const { wins, losses, draws } = records[i];
+      const total = wins + losses + draws;
+      return {
+        name,
+        games: total,
+        wins,
+        losses,
+        draws,
+        score: total > 0 ? (wins + draws / 2) / total : 0,
+        elo: Math.round(elo),
+        eloLow: Math.round(elo - margin),
+        eloHigh: Math.round(elo + margin),
+      };
+    })
+    .sort((a, b) => b.elo - a.elo);
+}
+
+export async function runTournament(
+  config: TournamentConfig,
+  { signal, onGame }: TournamentOptions = {}
+): Promise<TournamentReport> {
+  const names = new Set(config.entrants.map(entrant => entrant.name));
+  if (config.entrants.length < 2 || names.size !== config.entrants.length) {
+    throw new Error('A tournament needs at least two entrants with distinct names');
+  }
+
+  const startedAt = new Date().toISOString();
+  const random = createRandom(config.seed);
+  const engines = config.entrants.map(entrant => createEngine(entrant.engine));
+  const pairings = getPairings(config);
+  const rounds = Math.ceil(config.gamesPerPairing / 2);
+  const total = pairings.length * rounds * 2;
+  const games: TournamentGame[] = [];
+
+  for (let round = 0; round < rounds && !signal?.aborted; round++) {
+    for (const [a, b] of pairings) {
+      const opening = config.randomOpeningPlies > 0
+        ? randomOpening(random, config.randomOpeningPlies)
+        : createStandardOpening();
+      for (const [black, white] of [[a, b], [b, a]]) {
+        await yieldToEventLoop();
+        if (signal?.aborted) break;
+        const game = await playGame(engines[black], engines[white], {
+          opening,
+          timeLimitMs: { black: config.entrants[black].timeLimitMs, white: config.entrants[white].timeLimitMs },
+          signal,
+        });
+        const record: TournamentGame = {
+          black: config.entrants[black].name,
+          white: config.entrants[white].name,
+          winner: game.winner,
+          blackDiscs: game.score.black,
+          whiteDiscs: game.score.white,
+          transcript: serializeTranscript(game.transcript),
+        };
+        games.push(record);
+        onGame?.(record, games.length, total);
+      }
+    }
+  }
+
+  return {
+    config,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    aborted: Boolean(signal?.aborted),
+    games,
+    standings: computeStandings(config.entrants.map(entrant => entrant.name), games),
+  };
+}
+
+// One entrant's results in consecutive batches of games, for the win-rate chart.
+export function entrantWinRateSeries(report: TournamentReport, name: string, batchSize: number): WinRatePoint[] {
+  const outcomes: Outcome[] = [];
+  for (const game of report.games) {
+    const color: Player | null = game.black === name ? 'black' : game.white === name ? 'white' : null;
+    if (!color) continue;
+    outcomes.push(game.winner === color ? 'win' : game.winner === 'draw' ? 'draw' : 'loss');
+  }
+  return toWinRateSeries(outcomes, batchSize);
+}
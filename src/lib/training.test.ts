@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Player, Position } from '@/types/othello';
+import { createInitialPosition, fullBoard, moveToBit, playMove } from './bitboard';
+import { CLASSIC_EVALUATION, evaluate, getGamePhase, type EvaluationConfig } from './evaluation';
+import { randomOpening } from './match';
+import { getOpponent } from './othello';
+import { parseTranscript } from './notation';
+import { createRandom } from './random';
+import { DEFAULT_TRAINING_CONFIG, updateWeights, type TrainingStep } from './training';
+
+function playLine(line: string): TrainingStep {
+  let position = createInitialPosition(8);
+  let sideToMove: Player = 'black';
+  for (const entry of parseTranscript(line)) {
+    if (entry !== 'pass') position = playMove(position, sideToMove, moveToBit(entry, 8));
+    sideToMove = getOpponent(sideToMove);
+  }
+  return { position, sideToMove, explored: false };
+}
+
+// A finished board that one side has filled completely.
+function finalStep(winner: Player): TrainingStep {
+  const full = fullBoard(8);
+  const position: Position = { size: 8, black: winner === 'black' ? full : BigInt(0), white: winner === 'white' ? full : BigInt(0) };
+  return { position, sideToMove: 'black', explored: false };
+}
+
+const copy = (config: EvaluationConfig): EvaluationConfig => structuredClone(config);
+
+const training = { ...DEFAULT_TRAINING_CONFIG, learningRate: 0.1 };
+
+test('a single game pulls the value of its positions toward the result', () => {
+  const start = playLine('f5d6c3');
+  const before = evaluate(start.position, 'black', start.sideToMove, CLASSIC_EVALUATION);
+
+  for (const [winner, direction] of [['black', 1], ['white', -1]] as const) {
+    const weights = copy(CLASSIC_EVALUATION);
+    updateWeights(weights, [start, finalStep(winner)], training);
+    const after = evaluate(start.position, 'black', start.sideToMove, weights);
+    assert.equal(Math.sign(after - before), direction);
+  }
+});
+
+test('with lambda 0 each position only learns from the next one', () => {
+  const opening = playLine('f5d6c3');
+  const { position, sideToMove } = randomOpening(createRandom(3), 50);
+  const endgame: TrainingStep = { position, sideToMove, explored: false };
+  assert.equal(getGamePhase(opening.position), 'opening');
+  assert.equal(getGamePhase(endgame.position), 'endgame');
+
+  const openingWeights = (lambda: number, winner: Player) => {
+    const weights = copy(CLASSIC_EVALUATION);
+    updateWeights(weights, [opening, endgame, finalStep(winner)], { ...training, lambda });
+    return weights.weights.opening;
+  };
+
+  // The result reaches the opening weights only through the eligibility trace.
+  assert.deepEqual(openingWeights(0, 'black'), openingWeights(0, 'white'));
+  assert.notDeepEqual(openingWeights(0.7, 'black'), openingWeights(0.7, 'white'));
+  assert.notDeepEqual(openingWeights(0, 'black'), CLASSIC_EVALUATION.weights.opening);
+});
@@ -0,0 +1,304 @@
+import type { Player, Position, Score } from '@/types/othello';
+import { getOpponent } from './othello';
+import { getMovesMask, playMove, bitsToSquares, squareBit, getPositionScore } from './bitboard';
+import {
+  evaluate,
+  extractFeatures,
+  getGamePhase,
+  FEATURE_NAMES,
+  ZERO_WEIGHTS,
+  CLASSIC_EVALUATION,
+  type EvaluationConfig,
+  type FeatureWeights,
+  type GamePhase,
+} from './evaluation';
+import { createEngine } from './engine';
+import { randomOpening, playGame } from './match';
+import { yieldToEventLoop } from './search';
+import { createRandom } from './random';
+
+// Self-play training of evaluation weights with TD(lambda). Each generation
+// plays a batch of games against itself, nudging the weights after every game
+// so that each position's value predicts the next one and, at the end, the
+// result. The new weights are then measured against a fixed baseline.
+
+export interface TrainingConfig {
+  generations: number;
+  // Self-play games per generation.
+  gamesPerGeneration: number;
+  // Games against the baseline after each generation, played in pairs with colors swapped.
+  evaluationGames: number;
+  learningRate: number;
+  // How far credit for a result reaches back through earlier positions.
+  lambda: number;
+  // Chance of a random move during self-play; learning does not cross these moves.
+  explorationRate: number;
+  // Random moves at the start of every game, so games do not repeat.
+  randomOpeningPlies: number;
+  // Search depth of both sides in the games against the baseline.
+  evaluationDepth: number;
+  seed: number;
+  initialWeights: EvaluationConfig;
+  baseline: EvaluationConfig;
+}
+
+export const DEFAULT_TRAINING_CONFIG: TrainingConfig = {
+  generations: 10,
+  gamesPerGeneration: 50,
+  evaluationGames: 20,
+  learningRate: 0.01,
+  lambda: 0.7,
+  explorationRate: 0.05,
+  randomOpeningPlies: 6,
+  evaluationDepth: 2,
+  seed: 1,
+  initialWeights: CLASSIC_EVALUATION,
+  baseline: CLASSIC_EVALUATION,
+};
+
+export interface BaselineGame {
+  learnerColor: Player;
+  winner: Player | 'draw';
+  score: Score;
+}
+
+export interface TrainingSnapshot {
+  // Generation 0 is the untrained starting point.
+  generation: number;
+  // Self-play games played so far.
+  gamesPlayed: number;
+  weights: EvaluationConfig;
+  // Results of these weights against the baseline.
+  wins: number;
+  losses: number;
+  draws: number;
+  // Draws count half.
+  winRate: number;
+  games: BaselineGame[];
+  elapsedMs: number;
+}
+
+export interface TrainingOptions {
+  signal?: AbortSignal;
+  onSnapshot?: (snapshot: TrainingSnapshot) => void;
+}
+
+// Evaluations are squashed into (-1, 1) with tanh(score / VALUE_SCALE), the same
+// range as a game result, so the two can be compared.
+const VALUE_SCALE = 50;
+
+// Typical size of each feature. Updates are divided by its square so that large
+// features such as the square table do not swamp small ones such as parity.
+const FEATURE_SCALE: FeatureWeights = {
+  discs: 10,
+  mobility: 5,
+  potentialMobility: 5,
+  stability: 5,
+  corners: 1,
+  xSquares: 1,
+  cSquares: 1,
+  edges: 2,
+  squareTable: 50,
+  parity: 1,
+};
+
+// Evaluation games never need the clock; depth alone limits them.
+const EVALUATION_TIME_LIMIT_MS = 60000;
+
+const PHASES: GamePhase[] = ['opening', 'midgame', 'endgame'];
+
+type Gradient = Record<GamePhase, FeatureWeights>;
+
+function zeroGradient(): Gradient {
+  return { opening: { ...ZERO_WEIGHTS }, midgame: { ...ZERO_WEIGHTS }, endgame: { ...ZERO_WEIGHTS } };
+}
+
+function cloneWeights(config: EvaluationConfig, name: string): EvaluationConfig {
+  return {
+    name,
+    weights: {
+      opening: { ...config.weights.opening },
+      midgame: { ...config.weights.midgame },
+      endgame: { ...config.weights.endgame },
+    },
+  };
+}
+
+// +1 if black won, -1 if white won, 0 for a draw.
+function gameResult(position: Position): number {
+  const { black, white } = getPositionScore(position);
+  return Math.sign(black - white);
+}
+
+export interface TrainingStep {
+  position: Position;
+  sideToMove: Player;
+  // Whether the move leading out of this position was a random exploration move.
+  explored: boolean;
+}
+
+// Plays one game where each side picks the move whose resulting position the
+// current weights like best, and records every position along the way.
+function playSelfPlayGame(config: EvaluationConfig, random: () => number, training: TrainingConfig): TrainingStep[] {
+  let { position, sideToMove } = randomOpening(random, training.randomOpeningPlies);
+  const steps: TrainingStep[] = [];
+
+  for (;;) {
+    const moves = bitsToSquares(getMovesMask(position, sideToMove));
+    if (moves.length === 0) {
+      if (!getMovesMask(position, getOpponent(sideToMove))) break;
+      sideToMove = getOpponent(sideToMove);
+      continue;
+    }
+
+    const explored = random() < training.explorationRate;
+    let choice = moves[Math.floor(random() * moves.length)];
+    if (!explored) {
+      let bestScore = -Infinity;
+      for (const move of moves) {
+        const child = playMove(position, sideToMove, squareBit(move));
+        const score = evaluate(child, sideToMove, getOpponent(sideToMove), config);
+        if (score > bestScore) {
+          bestScore = score;
+          choice = move;
+        }
+      }
+    }
+
+    steps.push({ position, sideToMove, explored });
+    position = playMove(position, sideToMove, squareBit(choice));
+    sideToMove = getOpponent(sideToMove);
+  }
+
+  steps.push({ position, sideToMove, explored: false });
+  return steps;
+}
+
+// Value of a position from black's point of view, in (-1, 1).
+const valueOf = (step: TrainingStep, config: EvaluationConfig) =>
+  Math.tanh(evaluate(step.position, 'black', step.sideToMove, config) / VALUE_SCALE);
+
+// Offline TD(lambda) over one finished game: each position's value is pulled
+// towards the next position's value, and the last one towards the result.
+export function updateWeights(config: EvaluationConfig, steps: TrainingStep[], training: TrainingConfig) {
+  const values = steps.map(step => valueOf(step, config));
+  values[values.length - 1] = gameResult(steps[steps.length - 1].position);
+
+  const trace = zeroGradient();
+  const update = zeroGradient();
+
+  for (let t = 0; t < steps.length - 1; t++) {
+    const { position, sideToMove, explored } = steps[t];
+    const phase = getGamePhase(position);
+    const features = extractFeatures(position, 'black', sideToMove);
+    const slope = (1 - values[t] ** 2) / VALUE_SCALE;
+
+    for (const p of PHASES) {
+      for (const name of FEATURE_NAMES) {
+        trace[p][name] *= training.lambda;
+      }
+    }
+    for (const name of FEATURE_NAMES) {
+      trace[phase][name] += slope * features[name];
+    }
+
+    if (explored) {
+      // The move out of this position was random, so its outcome says nothing
+      // about how good the position was.
+      for (const p of PHASES) {
+        for (const name of FEATURE_NAMES) {
+          trace[p][name] = 0;
+        }
+      }
+      continue;
+    }
+
+    const error = values[t + 1] - values[t];
+    for (const p of PHASES) {
+      for (const name of FEATURE_NAMES) {
+        update[p][name] += error * trace[p][name];
+      }
+    }
+  }
+
+  for (const p of PHASES) {
+    for (const name of FEATURE_NAMES) {
+      config.weights[p][name] += (training.learningRate * update[p][name] * VALUE_SCALE) / FEATURE_SCALE[name] ** 2;
+    }
+  }
+}
+
+// Plays the weights against the baseline from the same openings every
+// generation, once with each color, so generations can be compared fairly.
+async function measureAgainstBaseline(
+  weights: EvaluationConfig,
+  training: TrainingConfig,
+  signal?: AbortSignal
+): Promise<Pick<TrainingSnapshot, 'wins' | 'losses' | 'draws' | 'winRate' | 'games'>> {
+  const engineFor = (evaluation: EvaluationConfig) =>
+    createEngine({ id: 'minimax', options: { maxDepth: training.evaluationDepth, endgameEmpties: 0, evaluation } });
+  const learner = engineFor(weights);
+  const baseline = engineFor(training.baseline);
+  const random = createRandom(training.seed);
+  const games: BaselineGame[] = [];
+  let wins = 0;
+  let losses = 0;
+  let draws = 0;
+
+  for (let pair = 0; pair < Math.ceil(training.evaluationGames / 2); pair++) {
+    const opening = randomOpening(random, training.randomOpeningPlies);
+    for (const learnerColor of ['black', 'white'] as Player[]) {
+      const [black, white] = learnerColor === 'black' ? [learner, baseline] : [baseline, learner];
+      const { winner, score } = await playGame(black, white, {
+        opening,
+        timeLimitMs: { black: EVALUATION_TIME_LIMIT_MS, white: EVALUATION_TIME_LIMIT_MS },
+        signal,
+      });
+      games.push({ learnerColor, winner, score });
+      if (winner === learnerColor) wins++;
+      else if (winner === 'draw') draws++;
+      else losses++;
+    }
+  }
+
+  return { wins, losses, draws, winRate: games.length > 0 ? (wins + draws / 2) / games.length : 0, games };
+}
+
+// Trains for the configured number of generations, reporting a snapshot of the
+// weights and their results against the baseline after each one. Stops early,
+// keeping the snapshots so far, if the signal fires.
+export async function runTraining(
+  overrides: Partial<TrainingConfig> = {},
+  { signal, onSnapshot }: TrainingOptions = {}
+): Promise<TrainingSnapshot[]> {
+  const training = { ...DEFAULT_TRAINING_CONFIG, ...overrides };
+  const start = performance.now();
+  const random = createRandom(training.seed + 1);
+  const weights = cloneWeights(training.initialWeights, 'Generation 0');
+  const snapshots: TrainingSnapshot[] = [];
+
+  const record = async (generation: number) => {
+    const results = await measureAgainstBaseline(weights, training, signal);
+    if (signal?.aborted) return;
+    const snapshot: TrainingSnapshot = {
+      generation,
+      gamesPlayed: generation * training.gamesPerGeneration,
+      weights: cloneWeights(weights, `Generation ${generation}`),
+      ...results,
+      elapsedMs: performance.now() - start,
+    };
+    snapshots.push(snapshot);
+    onSnapshot?.(snapshot);
+  };
+
+  await record(0);
+  for (let generation = 1; generation <= training.generations && !signal?.aborted; generation++) {
+    for (let game = 0; game < training.gamesPerGeneration; game++) {
+      await yieldToEventLoop();
+      if (signal?.aborted) return snapshots;
+      updateWeights(weights, playSelfPlayGame(weights, random, training), training);
+    }
+    await record(generation);
+  }
+  return snapshots;
+}
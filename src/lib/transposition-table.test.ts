@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Player, Position } from '@/types/othello';
+import { createInitialPosition, bitsToSquares, getMovesMask, moveToBit, playMove } from './bitboard';
+import { getOpponent } from './othello';
+import { parseTranscript } from './notation';
+import { hashPosition } from './zobrist';
+import { TranspositionTable } from './transposition-table';
+import { createSearchContext, search } from './minimax';
+
+function playLine(line: string, size = 8): { position: Position; player: Player } {
+  let position = createInitialPosition(size);
+  let player: Player = 'black';
+  for (const entry of parseTranscript(line)) {
+    if (entry !== 'pass') position = playMove(position, player, moveToBit(entry, size));
+    player = getOpponent(player);
+  }
+  return { position, player };
+}
+
+test('a position reached by two move orders hashes the same', () => {
+  const first = playLine('d3c3f5f6');
+  const second = playLine('f5f6d3c3');
+  assert.deepEqual(first.position, second.position);
+  assert.equal(hashPosition(first.position, first.player), hashPosition(second.position, second.player));
+
+  assert.notEqual(hashPosition(first.position, 'black'), hashPosition(first.position, 'white'));
+  assert.notEqual(hashPosition(first.position, first.player), hashPosition(playLine('d3c3').position, first.player));
+  // The same bits on a larger board are a different position.
+  assert.notEqual(hashPosition({ ...first.position, size: 10 }, first.player), hashPosition(first.position, first.player));
+});
+
+test('entries are found again and counted in the statistics', () => {
+  const tt = new TranspositionTable(10);
+  const hash = hashPosition(playLine('f5').position, 'white');
+  assert.equal(tt.probe(hash), null);
+
+  tt.store(hash, { depth: 4, score: 120, bound: 'exact', bestMove: 19 });
+  assert.deepEqual(tt.probe(hash), { depth: 4, score: 120, bound: 'exact', bestMove: 19 });
+  // A shallower result does not replace a deeper one for the same position.
+  tt.store(hash, { depth: 2, score: -50, bound: 'upper', bestMove: 26 });
+  assert.equal(tt.peek(hash)?.depth, 4);
+
+  assert.deepEqual(tt.getStats(), { probes: 2, hits: 1, cutoffs: 0, stores: 1, hitRate: 0.5 });
+  tt.clear();
+  assert.equal(tt.peek(hash), null);
+  assert.equal(tt.getStats().probes, 0);
+});
+
+test('depths beyond 127 are stored intact', () => {
+  const tt = new TranspositionTable(10);
+  const hash = hashPosition(createInitialPosition(12), 'black');
+  tt.store(hash, { depth: 140, score: 0, bound: 'exact', bestMove: -1 });
+  assert.equal(tt.peek(hash)?.depth, 140);
+});
+
+test('a search finds what was stored for a transposed line', () => {
+  const { position, player } = playLine('d3c3f5f6');
+  const ctx = createSearchContext(player, { tt: new TranspositionTable(12) });
+  search(ctx, position, 3, true, -Infinity, Infinity);
+
+  const transposed = playLine('f5f6d3c3');
+  const { hits } = ctx.tt.getStats();
+  const entry = ctx.tt.probe(hashPosition(transposed.position, transposed.player));
+  assert.equal(entry?.depth, 3);
+  assert.equal(ctx.tt.getStats().hits, hits + 1);
+});
+
+test('a stored bound outside the window ends the node without searching it', () => {
+  const { position, player } = playLine('f5d6');
+  const hash = hashPosition(position, player);
+  const [bestMove] = bitsToSquares(getMovesMask(position, player));
+
+  for (const [bound, score, alpha, beta] of [
+    ['lower', 500, -Infinity, 100],
+    ['upper', -500, -100, Infinity],
+  ] as const) {
+    const ctx = createSearchContext(player);
+    ctx.tt.store(hash, { depth: 4, score, bound, bestMove });
+    const result = search(ctx, position, 4, true, alpha, beta, 1);
+    assert.equal(result.score, score);
+    assert.equal(ctx.nodes, 1);
+    assert.equal(ctx.tt.getStats().cutoffs, 1);
+  }
+
+  // A shallower entry cannot stand in for a deeper search.
+  const ctx = createSearchContext(player);
+  ctx.tt.store(hash, { depth: 2, score: 500, bound: 'lower', bestMove });
+  search(ctx, position, 4, true, -Infinity, 100, 1);
+  assert.ok(ctx.nodes > 1);
+});
@@ -0,0 +1,106 @@
+import { hashIndexBits } from './zobrist';
+
+export type BoundType = 'exact' | 'lower' | 'upper';
+
+export interface TTEntry {
+  depth: number;
+  score: number;
+  bound: BoundType;
+  // Square index of the best move found, or -1 if none.
+  bestMove: number;
+}
+
+export interface TTStats {
+  probes: number;
+  hits: number;
+  cutoffs: number;
+  stores: number;
+  hitRate: number;
+}
+
+const BOUNDS: BoundType[] = ['exact', 'lower', 'upper'];
+const DEFAULT_SIZE_BITS = 16;
+const EMPTY_KEY = -1;
+
+// A fixed-size, always-allocated table indexed by the low bits of a Zobrist
+// hash. A slot is overwritten when the new entry is at least as deep as the old
+// one or belongs to a different position.
+export class TranspositionTable {
+  private readonly mask: number;
+  private readonly keys: Float64Array;
+  private readonly scores: Float64Array;
+  private readonly depths: Int16Array;
+  private readonly bounds: Uint8Array;
+  private readonly moves: Int16Array;
+  private probes = 0;
+  private hits = 0;
+  private cutoffs = 0;
+  private stores = 0;
+
+  constructor(sizeBits = DEFAULT_SIZE_BITS) {
+    const size = 1 << sizeBits;
+    this.mask = size - 1;
+    this.keys = new Float64Array(size).fill(EMPTY_KEY);
+    this.scores = new Float64Array(size);
+    this.depths = new Int16Array(size);
+    this.bounds = new Uint8Array(size);
+    this.moves = new Int16Array(size).fill(-1);
+  }
+
+  probe(hash: number): TTEntry | null {
+    this.probes++;
+    const entry = this.peek(hash);
+    if (entry) {
+      this.hits++;
+    }
+    return entry;
+  }
+
+  // Reads an entry without counting it in the statistics, e.g. to extract a principal variation.
+  peek(hash: number): TTEntry | null {
+    const slot = hashIndexBits(hash) & this.mask;
+    if (this.keys[slot] !== hash) {
+      return null;
+    }
+    return {
+      depth: this.depths[slot],
+      score: this.scores[slot],
+      bound: BOUNDS[this.bounds[slot]],
+      bestMove: this.moves[slot],
+    };
+  }
+
+  store(hash: number, entry: TTEntry) {
+    const slot = hashIndexBits(hash) & this.mask;
+    if (this.keys[slot] === hash && this.depths[slot] > entry.depth) {
+      return;
+    }
+    this.stores++;
+    this.keys[slot] = hash;
+    this.scores[slot] = entry.score;
+    this.depths[slot] = entry.depth;
+    this.bounds[slot] = BOUNDS.indexOf(entry.bound);
+    this.moves[slot] = entry.bestMove;
+  }
+
+  // Called by the search when a probed entry ended the node without searching it.
+  recordCutoff() {
+    this.cutoffs++;
+  }
+
+  getStats(): TTStats {
+    return {
+      probes: this.probes,
+      hits: this.hits,
+      cutoffs: this.cutoffs,
+      stores: this.stores,
+      hitRate: this.probes === 0 ? 0 : this.hits / this.probes,
+    };
+  }
+
+  clear() {
+    this.keys.fill(EMPTY_KEY);
+    this.moves.fill(-1);
+    this.probes = this.hits = this.cutoffs = this.stores = 0;
+  }
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getMovesMask, popCount, BOARD_SIZES } from './bitboard';
+import { getWinner, scoreMargin } from './othello';
+import { createSearchContext, search } from './minimax';
+import { createRandom } from './random';
+import { createStartOpening, variantName, xotOpening, XOT_MAX_IMBALANCE, STANDARD_VARIANT } from './variants';
+
+test('misère scoring inverts the winner', () => {
+  const score = { black: 40, white: 24 };
+  assert.equal(getWinner(score), 'black');
+  assert.equal(getWinner(score, 'misere'), 'white');
+  assert.equal(scoreMargin(score, 'white', 'misere'), 16);
+  assert.equal(getWinner({ black: 32, white: 32 }, 'misere'), 'draw');
+});
+
+test('the parallel start is a legal position with black to move on every size', () => {
+  for (const size of BOARD_SIZES) {
+    const { position, sideToMove, moves } = createStartOpening({ scoring: 'standard', start: 'parallel' }, size);
+    assert.equal(sideToMove, 'black');
+    assert.deepEqual(moves, []);
+    assert.equal(position.black & position.white, BigInt(0));
+    assert.deepEqual([popCount(position.black), popCount(position.white)], [2, 2]);
+    assert.ok(getMovesMask(position, 'black'), `black has no move on ${size} x ${size}`);
+  }
+  assert.equal(variantName({ scoring: 'misere', start: 'parallel' }), 'Anti-Othello, Parallel start');
+  assert.equal(variantName(STANDARD_VARIANT), 'Standard');
+});
+
+test('a seeded XOT opening is balanced and repeatable', () => {
+  const opening = xotOpening(createRandom(11), 8);
+  assert.equal(opening.moves.length, 8);
+  assert.equal(opening.sideToMove, 'black');
+  const { score } = search(createSearchContext('black'), opening.position, 3, true, -Infinity, Infinity);
+  assert.ok(Math.abs(score) <= XOT_MAX_IMBALANCE, `imbalance ${score}`);
+  assert.deepEqual(xotOpening(createRandom(11), 8), opening);
+});
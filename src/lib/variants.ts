@@ -0,0 +1,120 @@
+import type { Position, Scoring } from '@/types/othello';
+import { squareIndex, squareBit } from './bitboard';
+import { createSearchContext, search } from './minimax';
+import { createStandardOpening, randomOpening, type Opening } from './match';
+
+// Game variants: how a game is scored and the position it starts from. Any
+// start can be combined with either scoring rule.
+
+// 'custom' positions are set up in the position editor rather than generated.
+export type StartLayout = 'standard' | 'parallel' | 'xot' | 'custom';
+
+export interface GameVariant {
+  scoring: Scoring;
+  start: StartLayout;
+}
+
+export interface VariantDescriptor {
+  name: string;
+  description: string;
+}
+
+export const STANDARD_VARIANT: GameVariant = { scoring: 'standard', start: 'standard' };
+
+export const SCORING_RULES: Record<Scoring, VariantDescriptor> = {
+  standard: {
+    name: 'Standard',
+    description: 'The player with the most discs at the end wins.',
+  },
+  misere: {
+    name: 'Anti-Othello',
+    description: 'The player with the fewest discs at the end wins.',
+  },
+};
+
+export const START_LAYOUTS: Record<StartLayout, VariantDescriptor> = {
+  standard: {
+    name: 'Standard',
+    description: 'The usual four centre discs, placed diagonally.',
+  },
+  parallel: {
+    name: 'Parallel',
+    description: "The four centre discs with each color's pair side by side.",
+  },
+  xot: {
+    name: 'XOT',
+    description: 'Eight random moves that leave the position roughly even.',
+  },
+  custom: {
+    name: 'Custom',
+    description: 'A position set up in the editor.',
+  },
+};
+
+// The layouts offered when starting a new game.
+export const GENERATED_LAYOUTS: StartLayout[] = ['standard', 'parallel', 'xot'];
+
+// XOT openings are random lines of this many moves whose shallow search
+// score is within XOT_MAX_IMBALANCE of even, the most even of several tries
+// if none is.
+const XOT_PLIES = 8;
+const XOT_SEARCH_DEPTH = 3;
+export const XOT_MAX_IMBALANCE = 10;
+const XOT_ATTEMPTS = 20;
+
+export const isStandardVariant = ({ scoring, start }: GameVariant): boolean =>
+  scoring === 'standard' && start === 'standard';
+
+// Names the parts of the variant that differ from standard Othello.
+export function variantName({ scoring, start }: GameVariant): string {
+  const names: string[] = [];
+  if (scoring !== 'standard') names.push(SCORING_RULES[scoring].name);
+  if (start !== 'standard') names.push(`${START_LAYOUTS[start].name} start`);
+  return names.join(', ') || 'Standard';
+}
+
+function parallelPosition(size: number): Position {
+  const low = size / 2 - 1;
+  const high = size / 2;
+  const bitOf = (row: number, col: number) => squareBit(squareIndex(row, col, size));
+  return {
+    black: bitOf(high, low) | bitOf(high, high),
+    white: bitOf(low, low) | bitOf(low, high),
+    size,
+  };
+}
+
+export function xotOpening(random: () => number, size: number, scoring: Scoring = 'standard'): Opening {
+  let best = createStandardOpening(size);
+  let bestImbalance = Infinity;
+  for (let attempt = 0; attempt < XOT_ATTEMPTS && bestImbalance > XOT_MAX_IMBALANCE; attempt++) {
+    const opening = randomOpening(random, XOT_PLIES, size);
+    // The line stops short if a side has to pass, which would leave white to move.
+    if (opening.moves.length < XOT_PLIES) continue;
+    const ctx = createSearchContext(opening.sideToMove, { scoring });
+    const { score } = search(ctx, opening.position, XOT_SEARCH_DEPTH, true, -Infinity, Infinity);
+    if (Math.abs(score) < bestImbalance) {
+      best = opening;
+      bestImbalance = Math.abs(score);
+    }
+  }
+  return best;
+}
+
+// The position a game of this variant starts from, always with black to move.
+export function createStartOpening(
+  { scoring, start }: GameVariant,
+  size: number,
+  random: () => number = Math.random
+): Opening {
+  switch (start) {
+    case 'parallel':
+      return { position: parallelPosition(size), sideToMove: 'black', moves: [] };
+    case 'xot':
+      return xotOpening(random, size, scoring);
+    case 'custom':
+      throw new Error('Custom positions are set up in the position editor.');
+    default:
+      return createStandardOpening(size);
+  }
+}
@@ -0,0 +1,29 @@
+// The series drawn by the win-rate chart, built from game outcomes of the AI.
+
+export interface WinRatePoint {
+  // Games played by the end of this batch.
+  games: number;
+  aiWins: number;
+  opponentWins: number;
+}
+
+export type Outcome = 'win' | 'loss' | 'draw';
+
+// Groups outcomes, oldest first, into consecutive batches of `batchSize`
+// games. Draws count towards `games` only.
+export function toWinRateSeries(outcomes: Outcome[], batchSize: number): WinRatePoint[] {
+  const series: WinRatePoint[] = [];
+  outcomes.forEach((outcome, i) => {
+    if (i % batchSize === 0) {
+      series.push({ games: 0, aiWins: 0, opponentWins: 0 });
+    }
+    const point = series[series.length - 1];
+    point.games = i + 1;
+    if (outcome === 'win') point.aiWins++;
+    if (outcome === 'loss') point.opponentWins++;
+  });
+  return series;
+}
+
+// The batch size that splits `count` games into at most `maxBatches` bars.
+export const batchSizeFor = (count: number, maxBatches: number): number => Math.max(1, Math.ceil(count / maxBatches));
@@ -0,0 +1,49 @@
+import type { Player, Position } from '@/types/othello';
+import type { SearchLimits } from './search';
+import type { AnalysisResult } from './analysis';
+import type { EngineSpec, EngineLimits, EngineMove, EngineProgress } from './engine';
+import type { TrainingConfig, TrainingSnapshot } from './training';
+import type { WthorFile, WthorImportProgress, WthorImportSummary } from './wthor-store';
+
+// Messages exchanged with the search worker (src/workers/search.worker.ts).
+// Every request carries an id so replies to cancelled searches can be ignored.
+
+// Abort signals and transposition tables cannot cross the worker boundary; the
+// worker makes its own.
+export type WorkerSearchLimits = Omit<SearchLimits, 'signal' | 'tt'>;
+
+// Progress reports come back as messages instead of through a callback.
+export type WorkerEngineLimits = Omit<EngineLimits, 'signal' | 'onProgress'>;
+
+export type SearchWorkerRequest =
+  | { type: 'search'; id: number; position: Position; player: Player; engine: EngineSpec; limits: WorkerEngineLimits }
+  | { type: 'analyze'; id: number; position: Position; player: Player; limits: WorkerSearchLimits }
+  | { type: 'cancel'; id: number };
+
+export type SearchWorkerResponse =
+  | { type: 'progress'; id: number; report: EngineProgress }
+  | { type: 'result'; id: number; result: EngineMove }
+  | { type: 'analysis'; id: number; result: AnalysisResult }
+  | { type: 'error'; id: number; message: string };
+
+// Messages exchanged with the training worker (src/workers/training.worker.ts),
+// which runs one self-play training session at a time.
+
+export type TrainingWorkerRequest =
+  | { type: 'train'; config: Partial<Omit<TrainingConfig, 'initialWeights' | 'baseline'>> }
+  | { type: 'cancel' };
+
+export type TrainingWorkerResponse =
+  | { type: 'snapshot'; snapshot: TrainingSnapshot }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+// Messages exchanged with the WTHOR worker (src/workers/wthor.worker.ts),
+// which parses and indexes database files into IndexedDB off the main thread.
+
+export type WthorWorkerRequest = { type: 'import'; files: WthorFile[] };
+
+export type WthorWorkerResponse =
+  | { type: 'progress'; progress: WthorImportProgress }
+  | { type: 'done'; summary: WthorImportSummary }
+  | { type: 'error'; message: string };
@@ -0,0 +1,153 @@
+import { parseWthorGames, parseWthorPlayers, parseWthorTournaments } from './wthor';
+import {
+  databaseGamesFromWthor,
+  indexGames,
+  mergePositionEntries,
+  type DatabaseGame,
+  type PositionEntry,
+} from './opening-explorer';
+
+// The imported database, kept in IndexedDB since a single year of WTHOR games
+// outgrows localStorage. Games are stored by id and the explorer statistics by
+// position key, so looking up a position reads one record. Player and
+// tournament names are kept too, for .wtb files imported on their own later.
+
+const DB_NAME = 'othello-dojo:wthor';
+const DB_VERSION = 1;
+const GAMES = 'games';
+const POSITIONS = 'positions';
+const NAMES = 'names';
+
+export interface WthorFile {
+  name: string;
+  data: ArrayBuffer;
+}
+
+export interface WthorImportProgress {
+  // The .wtb files finished so far, out of the total.
+  filesDone: number;
+  files: number;
+}
+
+export interface WthorImportSummary {
+  added: number;
+  // Games already in the store, from an earlier import or another file.
+  duplicates: number;
+  // Games whose moves do not replay.
+  skipped: number;
+}
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export function openWthorStore(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    db.createObjectStore(GAMES, { keyPath: 'id' });
+    db.createObjectStore(POSITIONS, { keyPath: 'key' });
+    db.createObjectStore(NAMES);
+  };
+  return request(req);
+}
+
+export const countStoredGames = (db: IDBDatabase): Promise<number> =>
+  request(db.transaction(GAMES).objectStore(GAMES).count());
+
+export const readPositionEntry = (db: IDBDatabase, key: string): Promise<PositionEntry | undefined> =>
+  request(db.transaction(POSITIONS).objectStore(POSITIONS).get(key));
+
+export async function clearWthorStore(db: IDBDatabase): Promise<void> {
+  const tx = db.transaction([GAMES, POSITIONS, NAMES], 'readwrite');
+  for (const store of [GAMES, POSITIONS, NAMES]) {
+    tx.objectStore(store).clear();
+  }
+  await transactionDone(tx);
+}
+
+// Adds the games not stored yet and merges their statistics into the
+// positions they pass through. Returns how many were new. The check and the
+// writes share one transaction, so imports close together cannot both add a game.
+export async function addDatabaseGames(db: IDBDatabase, games: DatabaseGame[]): Promise<number> {
+  const tx = db.transaction([GAMES, POSITIONS], 'readwrite');
+  const gameStore = tx.objectStore(GAMES);
+  const positionStore = tx.objectStore(POSITIONS);
+  const added = new Map<string, DatabaseGame>();
+  const keys = gameStore.getAllKeys();
+  keys.onsuccess = () => {
+    const stored = new Set(keys.result);
+    for (const game of games) {
+      if (!stored.has(game.id)) added.set(game.id, game);
+    }
+    for (const game of added.values()) {
+      gameStore.put(game);
+    }
+    for (const entry of indexGames([...added.values()]).values()) {
+      const read = positionStore.get(entry.key);
+      read.onsuccess = () => positionStore.put(mergePositionEntries(read.result as PositionEntry | undefined, entry));
+    }
+  };
+  await transactionDone(tx);
+  return added.size;
+}
+
+// Saves names read from a file, or reads the ones saved before.
+async function storeNames(db: IDBDatabase, key: string, names: string[] | undefined): Promise<string[]> {
+  if (!names) {
+    return ((await request(db.transaction(NAMES).objectStore(NAMES).get(key))) as string[] | undefined) ?? [];
+  }
+  await request(db.transaction(NAMES, 'readwrite').objectStore(NAMES).put(names, key));
+  return names;
+}
+
+function parseFile<T>(file: WthorFile, parse: (data: ArrayBuffer) => T): T {
+  try {
+    return parse(file.data);
+  } catch (error) {
+    throw new Error(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Imports any mix of .wtb game files with wthor.jou and wthor.trn. Names come
+// from the files given, or from an earlier import when they are left out.
+// Throws on a file that is not WTHOR data, before anything is stored.
+export async function importWthorFiles(
+  db: IDBDatabase,
+  files: WthorFile[],
+  onProgress?: (progress: WthorImportProgress) => void
+): Promise<WthorImportSummary> {
+  const unknown = files.find(file => !/\.(wtb|jou|trn)$/i.test(file.name));
+  if (unknown) {
+    throw new Error(`${unknown.name} is not a WTHOR file; expected .wtb, .jou or .trn.`);
+  }
+  const withExtension = (extension: string) => files.filter(file => file.name.toLowerCase().endsWith(extension));
+  const gameFiles = withExtension('.wtb').map(file => parseFile(file, parseWthorGames));
+  const [playerFile] = withExtension('.jou');
+  const [tournamentFile] = withExtension('.trn');
+  const playerNames = playerFile && parseFile(playerFile, parseWthorPlayers);
+  const tournamentNames = tournamentFile && parseFile(tournamentFile, parseWthorTournaments);
+
+  const players = await storeNames(db, 'players', playerNames);
+  const tournaments = await storeNames(db, 'tournaments', tournamentNames);
+
+  const summary: WthorImportSummary = { added: 0, duplicates: 0, skipped: 0 };
+  for (const [done, file] of gameFiles.entries()) {
+    const { games, skipped } = databaseGamesFromWthor(file, players, tournaments);
+    const added = await addDatabaseGames(db, games);
+    summary.added += added;
+    summary.duplicates += games.length - added;
+    summary.skipped += skipped;
+    onProgress?.({ filesDone: done + 1, files: gameFiles.length });
+  }
+  return summary;
+}
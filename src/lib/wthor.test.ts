@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseWthorGames, parseWthorHeader, parseWthorPlayers } from './wthor';
+import { databaseGamesFromWthor, explorerKey, explorerMoves, indexGames, mergePositionEntries } from './opening-explorer';
+import { createInitialPosition, DEFAULT_BOARD_SIZE } from './bitboard';
+import { parseTranscript, moveToSquare } from './notation';
+
+interface TestGame {
+  tournament: number;
+  black: number;
+  white: number;
+  blackScore: number;
+  moves: string;
+}
+
+function header(count: number, nameCount: number, size = 8): Uint8Array {
+  const bytes = new Uint8Array(16);
+  const view = new DataView(bytes.buffer);
+  bytes.set([20, 24, 3, 15]);
+  view.setUint32(4, count, true);
+  view.setUint16(8, nameCount, true);
+  view.setUint16(10, 2023, true);
+  bytes[12] = size;
+  bytes[14] = 22;
+  return bytes;
+}
+
+function gameFile(games: TestGame[]): Uint8Array {
+  const bytes = new Uint8Array(16 + games.length * 68);
+  bytes.set(header(games.length, 0));
+  const view = new DataView(bytes.buffer);
+  games.forEach((game, i) => {
+    const offset = 16 + i * 68;
+    view.setUint16(offset, game.tournament, true);
+    view.setUint16(offset + 2, game.black, true);
+    view.setUint16(offset + 4, game.white, true);
+    bytes[offset + 6] = game.blackScore;
+    bytes[offset + 7] = game.blackScore;
+    parseTranscript(game.moves).forEach((entry, m) => {
+      if (entry !== 'pass') bytes[offset + 8 + m] = 10 * (entry.row + 1) + entry.col + 1;
+    });
+  });
+  return bytes;
+}
+
+function nameFile(names: string[], recordBytes: number): Uint8Array {
+  const bytes = new Uint8Array(16 + names.length * recordBytes);
+  bytes.set(header(0, names.length));
+  names.forEach((name, i) => bytes.set(Array.from(name, char => char.charCodeAt(0)), 16 + i * recordBytes));
+  return bytes;
+}
+
+const GAMES: TestGame[] = [
+  { tournament: 1, black: 0, white: 1, blackScore: 40, moves: 'f5d6c3d3c4' },
+  { tournament: 1, black: 1, white: 0, blackScore: 32, moves: 'f5f6e6f4' },
+  { tournament: 0, black: 0, white: 1, blackScore: 20, moves: 'd3c5f6' },
+];
+
+test('reads the header and the games', () => {
+  const file = parseWthorGames(gameFile(GAMES));
+  assert.deepEqual(file.header, {
+    created: { year: 2024, month: 3, day: 15 },
+    gameCount: 3,
+    nameCount: 0,
+    gameYear: 2023,
+    boardSize: 8,
+    solitaire: false,
+    theoreticalDepth: 22,
+  });
+  assert.equal(file.games.length, 3);
+  assert.deepEqual(
+    file.games.map(game => game.moves.map(moveToSquare).join('')),
+    GAMES.map(game => game.moves)
+  );
+  assert.deepEqual(file.games[1], { ...file.games[1], tournament: 1, black: 1, white: 0, blackScore: 32 });
+});
+
+test('rejects files it cannot read', () => {
+  assert.throws(() => parseWthorHeader(new Uint8Array(10)), /16-byte header/);
+  assert.throws(() => parseWthorGames(gameFile(GAMES).subarray(0, 100)), /lists 3 games/);
+  const bigBoard = gameFile([]);
+  bigBoard[12] = 10;
+  assert.throws(() => parseWthorGames(bigBoard), /Only 8 x 8/);
+  const badSquare = gameFile(GAMES.slice(0, 1));
+  badSquare[16 + 8] = 99;
+  assert.throws(() => parseWthorGames(badSquare), /Game 1, move 1: 99 is not a square/);
+});
+
+test('reads player names and names the database games', () => {
+  const players = parseWthorPlayers(nameFile(['Alice Martin', 'Bob Leroy'], 20));
+  assert.deepEqual(players, ['Alice Martin', 'Bob Leroy']);
+
+  const illegal = { tournament: 0, black: 0, white: 1, blackScore: 33, moves: 'a1' };
+  const { games, skipped } = databaseGamesFromWthor(parseWthorGames(gameFile([...GAMES, illegal])), players, ['Paris Open']);
+  assert.equal(skipped, 1);
+  assert.equal(games.length, 3);
+  assert.deepEqual(games[0], {
+    id: '2023:1:0:1:f5d6c3d3c4',
+    year: 2023,
+    tournament: 'Tournament 1',
+    black: 'Alice Martin',
+    white: 'Bob Leroy',
+    blackScore: 40,
+    theoreticalScore: 40,
+    moves: 'f5d6c3d3c4',
+  });
+  assert.equal(games[2].tournament, 'Paris Open');
+});
+
+test('explorer statistics count symmetric openings together and merge across imports', () => {
+  const { games } = databaseGamesFromWthor(parseWthorGames(gameFile(GAMES)));
+  const merged = indexGames(games.slice(0, 1));
+  for (const [key, entry] of indexGames(games.slice(1))) {
+    merged.set(key, mergePositionEntries(merged.get(key), entry));
+  }
+  assert.deepEqual(merged, indexGames(games));
+
+  // All three games start from the symmetric standard position.
+  const { key, symmetries } = explorerKey(createInitialPosition(DEFAULT_BOARD_SIZE), 'black');
+  const moves = explorerMoves(merged.get(key), symmetries);
+  assert.equal(moves.length, 4);
+  for (const stats of moves) {
+    assert.equal(stats.games, 0.75);
+    assert.equal(stats.blackWins, 0.25);
+    assert.equal(stats.draws, 0.25);
+    assert.equal(stats.whiteWins, 0.25);
+    assert.equal(stats.averageBlackScore, (40 + 32 + 20) / 3);
+  }
+});
@@ -0,0 +1,132 @@
+import type { Move } from '@/types/othello';
+import { DEFAULT_BOARD_SIZE } from './bitboard';
+
+// The WTHOR database of the Fédération Française d'Othello: one .wtb file of
+// games per year, with the player and tournament names they refer to in
+// wthor.jou and wthor.trn. Every file opens with a 16-byte header; integers
+// are little-endian.
+//
+//   0     century, year, month, day the file was written (one byte each)
+//   4     number of games in a .wtb file (4 bytes)
+//   8     number of names in a .jou or .trn file (2 bytes)
+//   10    year the games were played (2 bytes)
+//   12    board size, 0 or 8 for 8 x 8
+//   13    1 for solitaire games
+//   14    depth from which the theoretical scores were computed
+//
+// A game takes 68 bytes: tournament, black and white player numbers (2 bytes
+// each), black's final disc count, black's disc count with perfect play from
+// the theoretical depth, then 60 moves written as 10 * row + column counting
+// from 1, so f5 is 56. Unused move slots hold 0 and passes are left out.
+// Names are null-padded Latin-1 text, 20 bytes for players and 26 for tournaments.
+
+export interface WthorHeader {
+  created: { year: number; month: number; day: number };
+  gameCount: number;
+  nameCount: number;
+  gameYear: number;
+  boardSize: number;
+  solitaire: boolean;
+  theoreticalDepth: number;
+}
+
+export interface WthorGame {
+  tournament: number;
+  black: number;
+  white: number;
+  // Black's disc count at the end, with the empty squares given to the winner.
+  blackScore: number;
+  theoreticalScore: number;
+  moves: Move[];
+}
+
+export interface WthorGameFile {
+  header: WthorHeader;
+  games: WthorGame[];
+}
+
+const HEADER_BYTES = 16;
+const GAME_BYTES = 68;
+const GAME_MOVES = 60;
+const PLAYER_NAME_BYTES = 20;
+const TOURNAMENT_NAME_BYTES = 26;
+
+const toBytes = (data: ArrayBuffer | Uint8Array): Uint8Array => (data instanceof Uint8Array ? data : new Uint8Array(data));
+
+export function parseWthorHeader(data: ArrayBuffer | Uint8Array): WthorHeader {
+  const bytes = toBytes(data);
+  if (bytes.length < HEADER_BYTES) {
+    throw new Error(`A WTHOR file starts with a ${HEADER_BYTES}-byte header; this one has ${bytes.length} bytes.`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return {
+    created: { year: bytes[0] * 100 + bytes[1], month: bytes[2], day: bytes[3] },
+    gameCount: view.getUint32(4, true),
+    nameCount: view.getUint16(8, true),
+    gameYear: view.getUint16(10, true),
+    boardSize: bytes[12] || DEFAULT_BOARD_SIZE,
+    solitaire: bytes[13] === 1,
+    theoreticalDepth: bytes[14],
+  };
+}
+
+// Throws if the file is not an 8 x 8 game file or is shorter than its header says.
+export function parseWthorGames(data: ArrayBuffer | Uint8Array): WthorGameFile {
+  const bytes = toBytes(data);
+  const header = parseWthorHeader(bytes);
+  if (header.boardSize !== DEFAULT_BOARD_SIZE) {
+    throw new Error(`Only 8 x 8 WTHOR files are supported; this one is ${header.boardSize} x ${header.boardSize}.`);
+  }
+  const expected = HEADER_BYTES + header.gameCount * GAME_BYTES;
+  if (bytes.length < expected) {
+    throw new Error(`The header lists ${header.gameCount} games, which need ${expected} bytes; the file has ${bytes.length}.`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const games: WthorGame[] = [];
+  for (let i = 0; i < header.gameCount; i++) {
+    const offset = HEADER_BYTES + i * GAME_BYTES;
+    const moves: Move[] = [];
+    for (let m = 0; m < GAME_MOVES; m++) {
+      const code = bytes[offset + 8 + m];
+      if (code === 0) break;
+      const row = Math.floor(code / 10) - 1;
+      const col = (code % 10) - 1;
+      if (row < 0 || row >= DEFAULT_BOARD_SIZE || col < 0 || col >= DEFAULT_BOARD_SIZE) {
+        throw new Error(`Game ${i + 1}, move ${m + 1}: ${code} is not a square.`);
+      }
+      moves.push({ row, col });
+    }
+    games.push({
+      tournament: view.getUint16(offset, true),
+      black: view.getUint16(offset + 2, true),
+      white: view.getUint16(offset + 4, true),
+      blackScore: bytes[offset + 6],
+      theoreticalScore: bytes[offset + 7],
+      moves,
+    });
+  }
+  return { header, games };
+}
+
+function parseNames(data: ArrayBuffer | Uint8Array, recordBytes: number): string[] {
+  const bytes = toBytes(data);
+  const { nameCount } = parseWthorHeader(bytes);
+  const expected = HEADER_BYTES + nameCount * recordBytes;
+  if (bytes.length < expected) {
+    throw new Error(`The header lists ${nameCount} names, which need ${expected} bytes; the file has ${bytes.length}.`);
+  }
+  const decoder = new TextDecoder('latin1');
+  return Array.from({ length: nameCount }, (_, i) => {
+    const record = bytes.subarray(HEADER_BYTES + i * recordBytes, HEADER_BYTES + (i + 1) * recordBytes);
+    const end = record.indexOf(0);
+    return decoder.decode(end < 0 ? record : record.subarray(0, end)).trim();
+  });
+}
+
+// Player names from wthor.jou, indexed by player number.
+export const parseWthorPlayers = (data: ArrayBuffer | Uint8Array): string[] => parseNames(data, PLAYER_NAME_BYTES);
+
+// Tournament names from wthor.trn, indexed by tournament number.
+export const parseWthorTournaments = (data: ArrayBuffer | Uint8Array): string[] =>
+  parseNames(data, TOURNAMENT_NAME_BYTES);
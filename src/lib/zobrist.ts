@@ -0,0 +1,73 @@
+import type { Player, Position, Bitboard } from '@/types/othello';
+import { createRandomUint32 } from './random';
+import { MAX_BOARD_SIZE } from './bitboard';
+
+// Zobrist keys are kept as two 32-bit halves. A hash is returned as a single
+// 53-bit integer (21 bits of the high half, all of the low half) so it fits a
+// JS number exactly and can be compared with ===.
+const WORDS_PER_BOARD = Math.ceil((MAX_BOARD_SIZE * MAX_BOARD_SIZE) / 32);
+const BYTES_PER_BOARD = WORDS_PER_BOARD * 4;
+const LOW_WORD = BigInt(0xffffffff);
+const WORD_SHIFT = BigInt(32);
+const HIGH_BITS_KEPT = 21;
+const TWO_TO_32 = 2 ** 32;
+
+// Seeded so hashes are the same on every run.
+const random = createRandomUint32(0x0e110);
+
+// For each color and byte of the board, the XOR of the square keys for every
+// possible value of that byte.
+function createByteTable(): { low: Uint32Array; high: Uint32Array } {
+  const low = new Uint32Array(BYTES_PER_BOARD * 256);
+  const high = new Uint32Array(BYTES_PER_BOARD * 256);
+  for (let byte = 0; byte < BYTES_PER_BOARD; byte++) {
+    const squareLow = Array.from({ length: 8 }, random);
+    const squareHigh = Array.from({ length: 8 }, random);
+    for (let value = 0; value < 256; value++) {
+      let l = 0;
+      let h = 0;
+      for (let bit = 0; bit < 8; bit++) {
+        if (value & (1 << bit)) {
+          l ^= squareLow[bit];
+          h ^= squareHigh[bit];
+        }
+      }
+      low[byte * 256 + value] = l >>> 0;
+      high[byte * 256 + value] = h >>> 0;
+    }
+  }
+  return { low, high };
+}
+
+const BLACK_KEYS = createByteTable();
+const WHITE_KEYS = createByteTable();
+const WHITE_TO_MOVE = { low: random(), high: random() };
+// Keeps equal bit patterns on boards of different sizes apart.
+const SIZE_KEYS = Array.from({ length: MAX_BOARD_SIZE + 1 }, () => ({ low: random(), high: random() }));
+
+function mixBoard(bits: Bitboard, keys: { low: Uint32Array; high: Uint32Array }, acc: [number, number]) {
+  for (let w = 0; bits; w++, bits >>= WORD_SHIFT) {
+    const word = Number(bits & LOW_WORD);
+    for (let b = 0; b < 4; b++) {
+      const index = (w * 4 + b) * 256 + ((word >>> (b * 8)) & 0xff);
+      acc[0] ^= keys.low[index];
+      acc[1] ^= keys.high[index];
+    }
+  }
+}
+
+export function hashPosition(position: Position, sideToMove: Player): number {
+  const acc: [number, number] = [0, 0];
+  mixBoard(position.black, BLACK_KEYS, acc);
+  mixBoard(position.white, WHITE_KEYS, acc);
+  acc[0] ^= SIZE_KEYS[position.size].low;
+  acc[1] ^= SIZE_KEYS[position.size].high;
+  if (sideToMove === 'white') {
+    acc[0] ^= WHITE_TO_MOVE.low;
+    acc[1] ^= WHITE_TO_MOVE.high;
+  }
+  return (acc[1] >>> (32 - HIGH_BITS_KEPT)) * TWO_TO_32 + (acc[0] >>> 0);
+}
+
+// The low 32 bits of a hash, used to pick a table slot.
+export const hashIndexBits = (hash: number): number => hash % TWO_TO_32;
@@ -2,3 +2,11 @@ export type Player = 'black' | 'white';
 export type CellState = Player | 'empty';
 export type BoardState = CellState[][];
 export type Move = { row: number; col: number };
+export type Score = { black: number; white: number };
+// 'standard' games are won with the most discs, 'misere' (Anti-Othello) games with the fewest.
+export type Scoring = 'standard' | 'misere';
+
+// One bit per square, bit index = row * size + col.
+export type Bitboard = bigint;
+// `size` is the number of rows and columns; boards are square with an even size.
+export type Position = { black: Bitboard; white: Bitboard; size: number };
@@ -0,0 +1,38 @@
+import { createEngine } from '@/lib/engine';
+import { analyzePosition } from '@/lib/analysis';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '@/lib/worker-protocol';
+
+const worker = self as unknown as Worker;
+const controllers = new Map<number, AbortController>();
+
+const reply = (message: SearchWorkerResponse) => worker.postMessage(message);
+
+worker.addEventListener('message', async (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(request.id, controller);
+  const { signal } = controller;
+  try {
+    if (request.type === 'analyze') {
+      const result = await analyzePosition(request.position, request.player, { ...request.limits, signal });
+      reply({ type: 'analysis', id: request.id, result });
+    } else {
+      const result = await createEngine(request.engine).chooseMove(request.position, request.player, {
+        ...request.limits,
+        signal,
+        onProgress: report => reply({ type: 'progress', id: request.id, report }),
+      });
+      reply({ type: 'result', id: request.id, result });
+    }
+  } catch (error) {
+    reply({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    controllers.delete(request.id);
+  }
+});
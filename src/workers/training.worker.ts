@@ -0,0 +1,29 @@
+import { runTraining } from '@/lib/training';
+import type { TrainingWorkerRequest, TrainingWorkerResponse } from '@/lib/worker-protocol';
+
+const worker = self as unknown as Worker;
+let controller: AbortController | null = null;
+
+const reply = (message: TrainingWorkerResponse) => worker.postMessage(message);
+
+worker.addEventListener('message', async (event: MessageEvent<TrainingWorkerRequest>) => {
+  const request = event.data;
+  controller?.abort();
+  if (request.type === 'cancel') {
+    return;
+  }
+
+  const current = new AbortController();
+  controller = current;
+  try {
+    await runTraining(request.config, {
+      signal: current.signal,
+      onSnapshot: snapshot => reply({ type: 'snapshot', snapshot }),
+    });
+    if (!current.signal.aborted) {
+      reply({ type: 'done' });
+    }
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,16 @@
+import { importWthorFiles, openWthorStore } from '@/lib/wthor-store';
+import type { WthorWorkerRequest, WthorWorkerResponse } from '@/lib/worker-protocol';
+
+const worker = self as unknown as Worker;
+const store = openWthorStore();
+
+const reply = (message: WthorWorkerResponse) => worker.postMessage(message);
+
+worker.addEventListener('message', async (event: MessageEvent<WthorWorkerRequest>) => {
+  try {
+    const summary = await importWthorFiles(await store, event.data.files, progress => reply({ type: 'progress', progress }));
+    reply({ type: 'done', summary });
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});